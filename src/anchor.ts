@@ -0,0 +1,189 @@
+import { ContentAnchor } from "./types";
+
+/** Matches a markdown ATX heading, capturing its level and text */
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/** Matches a block ID at the end of a line (e.g. "some text ^abc123") */
+const BLOCK_ID_RE = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+/** Number of lines on each side of the anchor line included in the fingerprint */
+const FINGERPRINT_CONTEXT = 1;
+
+/**
+ * Short, stable hash of a string (djb2, hex encoded).
+ */
+function hash(text: string): string {
+	let h = 5381;
+	for (let i = 0; i < text.length; i++) {
+		h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+	}
+	return (h >>> 0).toString(16);
+}
+
+/**
+ * Fingerprint of a line and its immediate neighbours, ignoring whitespace
+ * differences so re-indentation or trailing spaces don't break the match.
+ */
+function fingerprintAt(lines: string[], line: number): string {
+	const parts: string[] = [];
+	for (let i = line - FINGERPRINT_CONTEXT; i <= line + FINGERPRINT_CONTEXT; i++) {
+		parts.push((lines[i] ?? "").trim());
+	}
+	return hash(parts.join("\n"));
+}
+
+/**
+ * Find the heading path leading to a line, and the line the innermost
+ * heading sits on (-1 if the line is above the first heading).
+ */
+function headingPathAt(lines: string[], line: number): { path: string[]; start: number } {
+	const path: string[] = [];
+	const levels: number[] = [];
+	let start = -1;
+	let inFence = false;
+
+	for (let i = 0; i <= line && i < lines.length; i++) {
+		if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+		if (inFence) continue;
+
+		const match = HEADING_RE.exec(lines[i]);
+		if (!match) continue;
+
+		const level = match[1].length;
+		while (levels.length && levels[levels.length - 1] >= level) {
+			levels.pop();
+			path.pop();
+		}
+		levels.push(level);
+		path.push(match[2]);
+		start = i;
+	}
+
+	return { path, start };
+}
+
+/**
+ * Find the line range [start, end) of the section identified by a heading path.
+ * Returns null if the path no longer exists in the document.
+ */
+function findSection(lines: string[], path: string[]): { start: number; end: number } | null {
+	if (path.length === 0) {
+		// Preamble: everything before the first heading
+		const first = lines.findIndex((l) => HEADING_RE.test(l));
+		return { start: 0, end: first === -1 ? lines.length : first };
+	}
+
+	const levels: number[] = [];
+	const current: string[] = [];
+	let inFence = false;
+	let start = -1;
+	let startLevel = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+		if (inFence) continue;
+
+		const match = HEADING_RE.exec(lines[i]);
+		if (!match) continue;
+
+		const level = match[1].length;
+		if (start !== -1 && level <= startLevel) {
+			return { start, end: i };
+		}
+
+		while (levels.length && levels[levels.length - 1] >= level) {
+			levels.pop();
+			current.pop();
+		}
+		levels.push(level);
+		current.push(match[2]);
+
+		if (
+			start === -1 &&
+			current.length === path.length &&
+			current.every((h, idx) => h === path[idx])
+		) {
+			start = i;
+			startLevel = level;
+		}
+	}
+
+	return start === -1 ? null : { start, end: lines.length };
+}
+
+/**
+ * Capture a content anchor for a line of a note.
+ *
+ * The anchor records the heading path of the enclosing section, the line's
+ * offset within that section, a block ID if the line's paragraph has one,
+ * and a fingerprint of the surrounding text.
+ */
+export function createAnchor(content: string, line: number): ContentAnchor {
+	const lines = content.split("\n");
+	line = Math.max(0, Math.min(line, lines.length - 1));
+
+	const { path, start } = headingPathAt(lines, line);
+	const anchor: ContentAnchor = {
+		line,
+		headings: path,
+		sectionOffset: line - Math.max(0, start),
+		fingerprint: fingerprintAt(lines, line),
+	};
+
+	// Look for a block ID from the anchor line to the end of its paragraph
+	for (let i = line; i < lines.length && lines[i].trim() !== ""; i++) {
+		const match = BLOCK_ID_RE.exec(lines[i]);
+		if (match) {
+			anchor.blockId = match[1];
+			anchor.blockOffset = i - line;
+			break;
+		}
+	}
+
+	return anchor;
+}
+
+/**
+ * Re-locate an anchor in the current contents of a note.
+ *
+ * Tries, in order: the block ID, the text fingerprint (nearest match to
+ * where the line is expected), and the heading path plus section offset.
+ * Returns the anchor's current line, or null if it cannot be found.
+ */
+export function resolveAnchor(content: string, anchor: ContentAnchor): number | null {
+	const lines = content.split("\n");
+
+	// Fast path: the anchored line hasn't moved
+	if (
+		anchor.line < lines.length &&
+		fingerprintAt(lines, anchor.line) === anchor.fingerprint
+	) {
+		return anchor.line;
+	}
+
+	if (anchor.blockId) {
+		const blockLine = lines.findIndex(
+			(l) => BLOCK_ID_RE.exec(l)?.[1] === anchor.blockId
+		);
+		if (blockLine !== -1) {
+			return Math.max(0, blockLine - (anchor.blockOffset ?? 0));
+		}
+	}
+
+	const section = findSection(lines, anchor.headings);
+	const expected = section
+		? Math.min(section.start + anchor.sectionOffset, Math.max(section.start, section.end - 1))
+		: anchor.line;
+
+	// Nearest fingerprint match to the expected line
+	let best = -1;
+	for (let i = 0; i < lines.length; i++) {
+		if (fingerprintAt(lines, i) !== anchor.fingerprint) continue;
+		if (best === -1 || Math.abs(i - expected) < Math.abs(best - expected)) {
+			best = i;
+		}
+	}
+	if (best !== -1) return best;
+
+	return section ? expected : null;
+}
@@ -0,0 +1,147 @@
+import { App, FileView, TFile, WorkspaceLeaf } from "obsidian";
+import { SavedPosition } from "./types";
+import type { PositionStore } from "./store";
+import type { PositionTracker } from "./tracker";
+import { parseKey } from "./keys";
+import { createAnchor } from "./anchor";
+import { validatePosition } from "./format";
+import { getProgress } from "./progress";
+
+/**
+ * Workspace event fired after a position is saved:
+ * `(file: TFile, position: SavedPosition, leaf: WorkspaceLeaf)`.
+ */
+export const EVENT_SAVED = "remember-scroll-position:saved";
+
+/**
+ * Workspace event fired after a saved position is restored in a leaf:
+ * `(file: TFile, position: SavedPosition, leaf: WorkspaceLeaf)`.
+ */
+export const EVENT_RESTORED = "remember-scroll-position:restored";
+
+/**
+ * A stored position as seen through the API.
+ */
+export interface PositionEntry {
+	/** Vault path of the file */
+	path: string;
+	/** Id of the pane the position belongs to, or null for the note-level position */
+	pane: string | null;
+	position: SavedPosition;
+}
+
+/**
+ * Public API, available to other plugins as
+ * `app.plugins.getPlugin("remember-scroll-position")?.api`.
+ *
+ * Positions returned are copies; change them through `setPosition`.
+ * Subscribe to `EVENT_SAVED` / `EVENT_RESTORED` on `app.workspace`
+ * to follow changes as they happen.
+ */
+export interface RememberScrollPositionApi {
+	/** API version, bumped when the API changes incompatibly */
+	readonly version: number;
+
+	/**
+	 * Get the saved position of a file. Without `leaf` this is the
+	 * note-level position (where the note was last read in any pane).
+	 */
+	getPosition(path: string, leaf?: WorkspaceLeaf): SavedPosition | null;
+
+	/**
+	 * Save a position for a file: either a full position, or a line (and
+	 * column) to put the cursor on. It replaces the positions of the file's
+	 * panes, so every pane opens the file there. Throws if the file doesn't
+	 * exist or the position isn't valid.
+	 */
+	setPosition(path: string, position: SavedPosition | { line: number; ch?: number }): Promise<void>;
+
+	/** Forget all positions of a file, or of every file under a folder */
+	clearPosition(path: string): void;
+
+	/** List all stored positions */
+	getEntries(): PositionEntry[];
+
+	/** How far through a file its saved position is, from 0 to 1, or null if unknown */
+	getProgress(path: string): Promise<number | null>;
+
+	/**
+	 * Open a file at its saved position. Returns false if the file doesn't exist.
+	 */
+	openAtPosition(path: string): Promise<boolean>;
+}
+
+/**
+ * Implementation of the public API over the store and tracker.
+ */
+export class PositionApi implements RememberScrollPositionApi {
+	readonly version = 1;
+
+	constructor(private app: App, private store: PositionStore, private tracker: PositionTracker) {}
+
+	getPosition(path: string, leaf?: WorkspaceLeaf): SavedPosition | null {
+		const position = leaf?.view instanceof FileView && leaf.view.file?.path === path
+			? this.tracker.getLeafPosition(leaf)
+			: this.store.get(path);
+		return position ? structuredClone(position) : null;
+	}
+
+	async setPosition(path: string, position: SavedPosition | { line: number; ch?: number }): Promise<void> {
+		const file = this.getFile(path);
+		if (!file) throw new Error(`No file at ${path}`);
+
+		let saved: SavedPosition | null;
+		if ("timestamp" in position) {
+			saved = validatePosition(structuredClone(position));
+		} else {
+			const content = await this.app.vault.cachedRead(file);
+			const lineCount = content.split("\n").length;
+			if (!Number.isInteger(position.line) || position.line < 0 || position.line >= lineCount) {
+				throw new Error(`Line ${position.line} is outside ${path}`);
+			}
+			const pos = { line: position.line, ch: position.ch ?? 0 };
+			saved = {
+				timestamp: Date.now(),
+				scroll: position.line,
+				cursor: { from: pos, to: pos },
+				anchor: createAnchor(content, position.line),
+			};
+		}
+		if (!saved) throw new Error("Invalid position");
+
+		this.store.set(path, saved);
+		this.store.clearPanes(path);
+	}
+
+	clearPosition(path: string): void {
+		this.store.delete(path);
+	}
+
+	getEntries(): PositionEntry[] {
+		return this.store.entries().map(([key, position]) => {
+			const { path, split } = parseKey(key);
+			return { path, pane: split || null, position: structuredClone(position) };
+		});
+	}
+
+	async getProgress(path: string): Promise<number | null> {
+		const position = this.store.get(path);
+		if (!position) return null;
+
+		const file = this.getFile(path);
+		const content = file?.extension === "md" ? await this.app.vault.cachedRead(file) : undefined;
+		return getProgress(position, content);
+	}
+
+	async openAtPosition(path: string): Promise<boolean> {
+		const file = this.getFile(path);
+		if (!file) return false;
+		await this.tracker.openFile(file, this.store.get(path));
+		return true;
+	}
+
+	private getFile(path: string): TFile | null {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+}
@@ -0,0 +1,569 @@
+import { Plugin, TFile, normalizePath } from "obsidian";
+import { SavedPosition, PluginSettings } from "./types";
+import { makeKey, parseKey } from "./keys";
+import { DecodedPositions, decodePositions, encodePositions, validatePosition } from "./format";
+import { StorageBackend } from "./host";
+
+function toHex(bytes: Uint8Array): string {
+	return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Get a random hex value stored in localStorage under `key`, creating it
+ * if needed. localStorage is device-local and never synced by Obsidian Sync.
+ */
+function getLocalSecret(key: string, bytes: number): string {
+	let value = window.localStorage.getItem(key);
+	if (!value) {
+		const arr = new Uint8Array(bytes);
+		crypto.getRandomValues(arr);
+		value = toHex(arr);
+		window.localStorage.setItem(key, value);
+	}
+	return value;
+}
+
+/**
+ * Get or create a stable device ID (8 hex chars), ideal for
+ * distinguishing devices since it's stored device-locally.
+ */
+export function getDeviceId(): string {
+	return getLocalSecret("remember-scroll-position-device-id", 4);
+}
+
+/**
+ * Get or create the salt note paths are hashed with in privacy mode. Like
+ * the device ID it never leaves the device, so hashes can't be reversed by
+ * hashing guessed paths elsewhere.
+ */
+export function getPathSalt(): string {
+	return getLocalSecret("remember-scroll-position-path-salt", 16);
+}
+
+/**
+ * Device-specific JSON file in the plugin folder (the original storage).
+ *
+ * Each device gets its own positions file (e.g., positions-a1b2c3d4.json)
+ * to avoid sync conflicts when the vault is synced across multiple devices.
+ * Files carry a versioned header (see format.ts), are written atomically,
+ * and keep a rolling backup next to them (positions-a1b2c3d4.json.bak).
+ *
+ * In privacy mode (`hashPaths`) the file's keys are salted SHA-256 hashes
+ * of the note paths. They're matched back to paths by hashing the vault's
+ * files on load. The vault may not list every file that early, so keys
+ * left over are kept and matched again once the layout is ready; only then
+ * are positions of files that are gone dropped.
+ */
+export class JsonFileBackend implements StorageBackend {
+	private plugin: Plugin;
+	private settings: PluginSettings;
+	private deviceId: string;
+
+	/** Hash of each path hashed so far */
+	private hashes = new Map<string, string>();
+
+	/** Hashed positions not yet matched to a file, by hashed key */
+	private pending: Record<string, SavedPosition> = {};
+
+	/** When the backup was last refreshed (0 = not yet this session) */
+	private lastBackup = 0;
+
+	/** Minimum time between backup refreshes (ms) */
+	private static readonly BACKUP_INTERVAL = 60 * 60 * 1000;
+
+	constructor(plugin: Plugin, settings: PluginSettings) {
+		this.plugin = plugin;
+		this.settings = settings;
+		this.deviceId = getDeviceId();
+	}
+
+	/**
+	 * Get the device-specific file path for positions storage.
+	 * Replaces "positions.json" with "positions-{deviceId}.json" in the configured path.
+	 */
+	getFilePath(): string {
+		const base = this.settings.filePath;
+		return base.replace(/positions\.json$/, `positions-${this.deviceId}.json`);
+	}
+
+	/**
+	 * Load this device's positions file.
+	 *
+	 * Falls back to the temp file of an interrupted write, then to the backup.
+	 * A file that can't be read is moved aside rather than overwritten, and
+	 * malformed entries are dropped individually. Older formats are migrated.
+	 */
+	async load(): Promise<Record<string, SavedPosition>> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = normalizePath(this.getFilePath());
+		let found = false;
+
+		for (const path of [filePath, `${filePath}.tmp`, `${filePath}.bak`]) {
+			if (!(await adapter.exists(path))) continue;
+			found = true;
+
+			let decoded: DecodedPositions;
+			try {
+				decoded = decodePositions(await adapter.read(path));
+			} catch (e) {
+				console.error(`Remember Scroll Position: failed to read ${path}:`, e);
+				if (path === filePath) await this.quarantine(filePath);
+				continue;
+			}
+
+			if (decoded.dropped > 0) {
+				console.warn(`Remember Scroll Position: dropped ${decoded.dropped} malformed positions from ${path}`);
+			}
+			if (path !== filePath) {
+				console.warn(`Remember Scroll Position: recovered positions from ${path}`);
+			}
+			const hashed = !!decoded.header.hashed;
+			const positions = hashed ? await this.unhashKeys(decoded.positions) : decoded.positions;
+			if (path !== filePath || decoded.migrated || decoded.dropped > 0 || hashed !== this.settings.hashPaths) {
+				await this.save(positions);
+			}
+			return positions;
+		}
+		if (found) return {};
+
+		// Migration: try loading from the old shared positions.json
+		const oldPath = normalizePath(this.settings.filePath);
+		if (await adapter.exists(oldPath)) {
+			const data = await adapter.read(oldPath);
+			if (data) {
+				const { positions } = decodePositions(data);
+				// Write to the new device-specific file
+				await this.save(positions);
+				return positions;
+			}
+		}
+		return {};
+	}
+
+	/**
+	 * Write positions atomically: write a temp file, then swap it in place of
+	 * the real one. The replaced file becomes the backup if the last backup
+	 * is older than BACKUP_INTERVAL.
+	 */
+	async save(positions: Record<string, SavedPosition>): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = normalizePath(this.getFilePath());
+		const tmpPath = `${filePath}.tmp`;
+		const backupPath = `${filePath}.bak`;
+
+		// Ensure directory exists
+		const dir = filePath.substring(0, filePath.lastIndexOf("/"));
+		if (dir && !(await adapter.exists(dir))) {
+			await adapter.mkdir(dir);
+		}
+
+		const hashed = this.settings.hashPaths;
+		const stored = hashed ? { ...this.pending, ...await this.hashKeys(positions) } : positions;
+		// Pending keys can't be written as paths
+		if (!hashed) this.dropPending();
+		await adapter.write(tmpPath, encodePositions(stored, this.deviceId, this.plugin.manifest.version, hashed));
+
+		if (await adapter.exists(filePath)) {
+			if (Date.now() - this.lastBackup >= JsonFileBackend.BACKUP_INTERVAL) {
+				if (await adapter.exists(backupPath)) await adapter.remove(backupPath);
+				await adapter.rename(filePath, backupPath);
+				this.lastBackup = Date.now();
+			} else {
+				await adapter.remove(filePath);
+			}
+		}
+		await adapter.rename(tmpPath, filePath);
+	}
+
+	/**
+	 * Delete the backup and any unreadable files moved aside by
+	 * `quarantine`, which may still hold paths that have since been hashed
+	 * or excluded. The next save starts a new backup.
+	 */
+	async discardBackups(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = normalizePath(this.getFilePath());
+		const backupPath = `${filePath}.bak`;
+		if (await adapter.exists(backupPath)) await adapter.remove(backupPath);
+		this.lastBackup = 0;
+
+		// Quarantined files can't be parsed, so they can't be re-encoded either
+		const dir = filePath.substring(0, filePath.lastIndexOf("/"));
+		if (!dir || !(await adapter.exists(dir))) return;
+		const listed = await adapter.list(dir);
+		for (const path of listed.files) {
+			if (this.isQuarantinedPath(path)) await adapter.remove(path);
+		}
+	}
+
+	/**
+	 * Hash a note path with this device's salt.
+	 */
+	private async hash(path: string): Promise<string> {
+		let hash = this.hashes.get(path);
+		if (hash === undefined) {
+			const data = new TextEncoder().encode(`${getPathSalt()}:${path}`);
+			hash = toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+			this.hashes.set(path, hash);
+		}
+		return hash;
+	}
+
+	/**
+	 * Replace the path in every key with its hash, keeping pane qualifiers.
+	 */
+	private async hashKeys(positions: Record<string, SavedPosition>): Promise<Record<string, SavedPosition>> {
+		const hashed: Record<string, SavedPosition> = {};
+		for (const key in positions) {
+			const { path, split } = parseKey(key);
+			hashed[makeKey(await this.hash(path), split)] = positions[key];
+		}
+		return hashed;
+	}
+
+	/**
+	 * Match the positions left over from load to the files now in the
+	 * vault. Positions whose file still can't be found are dropped.
+	 */
+	async resolvePending(): Promise<Record<string, SavedPosition>> {
+		const pending = this.pending;
+		if (Object.keys(pending).length === 0) return {};
+		this.pending = {};
+		const resolved = await this.unhashKeys(pending);
+		this.dropPending();
+		return resolved;
+	}
+
+	/**
+	 * Forget the positions that couldn't be matched to a file.
+	 */
+	private dropPending(): void {
+		const dropped = Object.keys(this.pending).length;
+		if (dropped > 0) {
+			console.info(`Remember Scroll Position: dropped ${dropped} hashed positions of files no longer in the vault`);
+		}
+		this.pending = {};
+	}
+
+	/**
+	 * Turn hashed keys back into paths by hashing every file in the vault.
+	 * Positions whose file can't be found are set aside in `pending`.
+	 */
+	private async unhashKeys(positions: Record<string, SavedPosition>): Promise<Record<string, SavedPosition>> {
+		const paths = new Map<string, string>();
+		for (const file of this.plugin.app.vault.getFiles()) {
+			paths.set(await this.hash(file.path), file.path);
+		}
+
+		const unhashed: Record<string, SavedPosition> = {};
+		for (const key in positions) {
+			const { path: hash, split } = parseKey(key);
+			const path = paths.get(hash);
+			if (path) {
+				unhashed[makeKey(path, split)] = positions[key];
+			} else {
+				this.pending[key] = positions[key];
+			}
+		}
+		return unhashed;
+	}
+
+	/**
+	 * Move an unreadable positions file aside so it isn't overwritten.
+	 */
+	private async quarantine(path: string): Promise<void> {
+		const target = path.replace(/\.json$/, `.corrupt-${Date.now()}.json`);
+		try {
+			await this.plugin.app.vault.adapter.rename(path, target);
+			console.warn(`Remember Scroll Position: moved unreadable positions file to ${target}`);
+		} catch (e) {
+			console.error("Remember Scroll Position: failed to move unreadable positions file:", e);
+		}
+	}
+
+	/**
+	 * Whether a path is an unreadable copy of our positions file moved
+	 * aside by `quarantine`.
+	 */
+	private isQuarantinedPath(path: string): boolean {
+		const prefix = normalizePath(this.getFilePath()).replace(/\.json$/, ".corrupt-");
+		path = normalizePath(path);
+		return path.startsWith(prefix) && /^\d+\.json$/.test(path.substring(prefix.length));
+	}
+
+	/**
+	 * Whether a path is another device's positions file next to ours.
+	 */
+	isSiblingPath(path: string): boolean {
+		const own = normalizePath(this.getFilePath());
+		const dir = own.substring(0, own.lastIndexOf("/") + 1);
+		path = normalizePath(path);
+		return path !== own &&
+			path.startsWith(dir) &&
+			/^positions-[0-9a-f]+\.json$/.test(path.substring(dir.length));
+	}
+
+	/**
+	 * Load the positions files of every other device, keyed by file path.
+	 * Files that can't be read or parsed are skipped, as are files in
+	 * privacy mode, whose hashes only the device that wrote them can match.
+	 */
+	async loadSiblings(): Promise<Record<string, Record<string, SavedPosition>>> {
+		const adapter = this.plugin.app.vault.adapter;
+		const own = normalizePath(this.getFilePath());
+		const dir = own.substring(0, own.lastIndexOf("/"));
+		const siblings: Record<string, Record<string, SavedPosition>> = {};
+
+		if (!dir || !(await adapter.exists(dir))) return siblings;
+
+		const listed = await adapter.list(dir);
+		for (const path of listed.files) {
+			if (!this.isSiblingPath(path)) continue;
+			try {
+				const data = await adapter.read(path);
+				const decoded = data ? decodePositions(data) : null;
+				if (decoded && !decoded.header.hashed) siblings[path] = decoded.positions;
+			} catch (e) {
+				console.warn(`Remember Scroll Position: skipping unreadable positions file ${path}:`, e);
+			}
+		}
+		return siblings;
+	}
+}
+
+/**
+ * Browser IndexedDB, local to this device and vault. Never writes to the vault.
+ */
+export class IndexedDbBackend implements StorageBackend {
+	private static readonly STORE = "positions";
+
+	private dbName: string;
+	private db: Promise<IDBDatabase> | null = null;
+
+	constructor(plugin: Plugin) {
+		this.dbName = `remember-scroll-position-${plugin.app.appId}`;
+	}
+
+	async load(): Promise<Record<string, SavedPosition>> {
+		const db = await this.open();
+		const positions: Record<string, SavedPosition> = {};
+
+		await new Promise<void>((resolve, reject) => {
+			const tx = db.transaction(IndexedDbBackend.STORE, "readonly");
+			const request = tx.objectStore(IndexedDbBackend.STORE).openCursor();
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if (!cursor) return resolve();
+				const position = validatePosition(cursor.value);
+				if (position) positions[cursor.key as string] = position;
+				cursor.continue();
+			};
+			request.onerror = () => reject(request.error);
+		});
+
+		return positions;
+	}
+
+	async save(positions: Record<string, SavedPosition>, changed: Set<string>): Promise<void> {
+		if (changed.size === 0) return;
+		const db = await this.open();
+
+		await new Promise<void>((resolve, reject) => {
+			const tx = db.transaction(IndexedDbBackend.STORE, "readwrite");
+			const store = tx.objectStore(IndexedDbBackend.STORE);
+			for (const key of changed) {
+				if (key in positions) {
+					store.put(positions[key], key);
+				} else {
+					store.delete(key);
+				}
+			}
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(tx.error);
+			tx.onabort = () => reject(tx.error);
+		});
+	}
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.db) {
+			this.db = new Promise((resolve, reject) => {
+				const request = window.indexedDB.open(this.dbName, 1);
+				request.onupgradeneeded = () => {
+					request.result.createObjectStore(IndexedDbBackend.STORE);
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+		}
+		return this.db;
+	}
+}
+
+/**
+ * Shape of the frontmatter property written by FrontmatterBackend.
+ */
+interface FrontmatterPosition {
+	line: number;
+	ch: number;
+	scroll?: number;
+	updated?: string;
+}
+
+/**
+ * A position without the fields that describe where in the note it is,
+ * keeping its history, progress, marks and pin.
+ */
+function withoutSpot(position: SavedPosition): SavedPosition {
+	const rest = { ...position };
+	delete rest.scroll;
+	delete rest.scrollTop;
+	delete rest.mode;
+	delete rest.cursor;
+	delete rest.selections;
+	delete rest.folds;
+	delete rest.anchor;
+	delete rest.progress;
+	return rest;
+}
+
+/**
+ * Mirrors note-level markdown positions into a frontmatter property of the
+ * note itself, so the position travels with the file.
+ *
+ * Only the line, column and scroll of the note-level position of markdown
+ * files fit in frontmatter. Every position is kept in full in `fallback` —
+ * history, progress, anchor, folds, marks and all. On load, a frontmatter
+ * position newer than the one in `fallback` (moved there on another device)
+ * replaces its spot, keeping the rest.
+ */
+export class FrontmatterBackend implements StorageBackend {
+	private plugin: Plugin;
+	private settings: PluginSettings;
+	private fallback: StorageBackend;
+
+	constructor(plugin: Plugin, settings: PluginSettings, fallback: StorageBackend) {
+		this.plugin = plugin;
+		this.settings = settings;
+		this.fallback = fallback;
+	}
+
+	async discardBackups(): Promise<void> {
+		await this.fallback.discardBackups?.();
+	}
+
+	async resolvePending(): Promise<Record<string, SavedPosition>> {
+		return await this.fallback.resolvePending?.() ?? {};
+	}
+
+	async load(): Promise<Record<string, SavedPosition>> {
+		const positions = await this.fallback.load();
+		const { metadataCache, vault } = this.plugin.app;
+
+		const newer = new Set<string>();
+		for (const file of vault.getMarkdownFiles()) {
+			const value = metadataCache.getFileCache(file)?.frontmatter?.[this.settings.frontmatterProperty];
+			const position = this.fromFrontmatter(value, file);
+			if (!position) continue;
+
+			const stored = positions[file.path];
+			if (stored && stored.timestamp >= position.timestamp) continue;
+			positions[file.path] = stored ? { ...withoutSpot(stored), ...position } : position;
+			newer.add(file.path);
+		}
+
+		// Pane positions of those notes would be restored over the newer spot
+		for (const key of Object.keys(positions)) {
+			const { path, split } = parseKey(key);
+			if (split && newer.has(path)) delete positions[key];
+		}
+		return positions;
+	}
+
+	async save(positions: Record<string, SavedPosition>, changed: Set<string>): Promise<void> {
+		for (const key of changed) {
+			const position = positions[key];
+			const { path, split } = parseKey(key);
+			if (position ? !this.handles(key, position) : split !== "") continue;
+
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile) || file.extension !== "md") continue;
+			await this.writeFrontmatter(file, position);
+		}
+
+		await this.fallback.save(positions, changed);
+	}
+
+	/**
+	 * Whether a position is stored in frontmatter rather than the fallback.
+	 */
+	private handles(key: string, position: SavedPosition): boolean {
+		const { path, split } = parseKey(key);
+		return split === "" && path.endsWith(".md") && !position.view;
+	}
+
+	private async writeFrontmatter(file: TFile, position: SavedPosition | undefined): Promise<void> {
+		const property = this.settings.frontmatterProperty;
+		const existing = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[property] as
+			FrontmatterPosition | undefined;
+
+		if (!position) {
+			if (existing === undefined) return;
+			await this.plugin.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+				delete fm[property];
+			});
+			return;
+		}
+
+		const cursor = position.cursor?.to;
+		const value: FrontmatterPosition = {
+			line: cursor?.line ?? position.anchor?.line ?? 0,
+			ch: cursor?.ch ?? 0,
+		};
+		if (position.scroll !== undefined) value.scroll = Math.round(position.scroll);
+
+		// Skip the write (and the file modification) if nothing meaningful changed
+		if (
+			existing &&
+			existing.line === value.line &&
+			existing.ch === value.ch &&
+			existing.scroll === value.scroll
+		) {
+			return;
+		}
+
+		value.updated = new Date(position.timestamp).toISOString();
+		await this.plugin.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+			fm[property] = value;
+		});
+	}
+
+	private fromFrontmatter(value: unknown, file: TFile): SavedPosition | null {
+		if (!value || typeof value !== "object") return null;
+		const fm = value as Partial<FrontmatterPosition>;
+		if (typeof fm.line !== "number") return null;
+
+		const pos = { line: fm.line, ch: typeof fm.ch === "number" ? fm.ch : 0 };
+		const timestamp = fm.updated ? Date.parse(fm.updated) : NaN;
+		return {
+			timestamp: isNaN(timestamp) ? file.stat.mtime : timestamp,
+			scroll: typeof fm.scroll === "number" ? fm.scroll : undefined,
+			cursor: { from: pos, to: pos },
+		};
+	}
+}
+
+/**
+ * Create the backend selected in settings, or null if persistence is off.
+ */
+export function createBackend(plugin: Plugin, settings: PluginSettings): StorageBackend | null {
+	if (!settings.persistToDisk) return null;
+
+	switch (settings.storageBackend) {
+		case "indexeddb":
+			return new IndexedDbBackend(plugin);
+		case "frontmatter":
+			return new FrontmatterBackend(plugin, settings, new JsonFileBackend(plugin, settings));
+		default:
+			return new JsonFileBackend(plugin, settings);
+	}
+}
@@ -0,0 +1,98 @@
+import { App, TFile, WorkspaceLeaf } from "obsidian";
+import { PositionStore } from "./store";
+import { parseKey } from "./keys";
+
+/**
+ * What a cleanup pass did.
+ */
+export interface CleanupReport {
+	/** Files that no longer exist and whose positions were dropped */
+	removed: string[];
+	/** Files that were found elsewhere in the vault, as [old path, new path] */
+	relocated: [string, string][];
+	/** Number of pane positions dropped because their pane no longer exists */
+	stalePanes: number;
+}
+
+/**
+ * Find the file a missing path was most likely moved to: the only file in
+ * the vault with the same name that has no positions of its own.
+ */
+function findMovedFile(path: string, byName: Map<string, TFile[]>, stored: Set<string>): TFile | null {
+	const name = path.substring(path.lastIndexOf("/") + 1);
+	const candidates = byName.get(name) ?? [];
+	if (candidates.length !== 1) return null;
+	return stored.has(candidates[0].path) ? null : candidates[0];
+}
+
+/**
+ * Reconcile stored positions with the vault and workspace: positions of
+ * files deleted or moved while the plugin wasn't running (or on another
+ * device) are relocated by file name or dropped, and positions of panes
+ * that no longer exist are dropped. Call once the layout is ready, so
+ * every pane is known.
+ */
+export function cleanUpPositions(app: App, store: PositionStore): CleanupReport {
+	const report: CleanupReport = { removed: [], relocated: [], stalePanes: 0 };
+
+	const leafIds = new Set<string>();
+	app.workspace.iterateAllLeaves((leaf: WorkspaceLeaf) => { leafIds.add(leaf.id); });
+
+	const missing = new Set<string>();
+	const stalePanes: string[] = [];
+	const stored = new Set<string>();
+	for (const [key] of store.entries()) {
+		const { path, split } = parseKey(key);
+		stored.add(path);
+		if (!(app.vault.getAbstractFileByPath(path) instanceof TFile)) {
+			missing.add(path);
+		} else if (split && !leafIds.has(split)) {
+			stalePanes.push(key);
+		}
+	}
+
+	report.stalePanes = store.deleteKeys(stalePanes);
+	if (missing.size === 0) return report;
+
+	const byName = new Map<string, TFile[]>();
+	for (const file of app.vault.getFiles()) {
+		const files = byName.get(file.name);
+		if (files) {
+			files.push(file);
+		} else {
+			byName.set(file.name, [file]);
+		}
+	}
+
+	for (const path of missing) {
+		const moved = findMovedFile(path, byName, stored);
+		if (moved) {
+			store.rename(path, moved.path);
+			stored.add(moved.path);
+			report.relocated.push([path, moved.path]);
+		} else {
+			store.delete(path);
+			report.removed.push(path);
+		}
+	}
+	return report;
+}
+
+/**
+ * Describe a cleanup report in one sentence for the user.
+ */
+export function describeCleanup(report: CleanupReport): string {
+	const parts: string[] = [];
+	if (report.removed.length) {
+		parts.push(`forgot ${report.removed.length} deleted note${report.removed.length === 1 ? "" : "s"}`);
+	}
+	if (report.relocated.length) {
+		parts.push(`moved ${report.relocated.length} position${report.relocated.length === 1 ? "" : "s"} to renamed notes`);
+	}
+	if (report.stalePanes) {
+		parts.push(`dropped ${report.stalePanes} position${report.stalePanes === 1 ? "" : "s"} of closed panes`);
+	}
+	if (!parts.length) return "No stale positions found.";
+	const sentence = parts.join(", ");
+	return sentence.charAt(0).toUpperCase() + sentence.substring(1) + ".";
+}
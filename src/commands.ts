@@ -0,0 +1,300 @@
+import { FileView, Notice, Plugin, TFile, WorkspaceLeaf, moment, normalizePath } from "obsidian";
+import { PositionStore } from "./store";
+import { PositionTracker } from "./tracker";
+import { HistoryModal } from "./history-modal";
+import { MarkNameModal, MarkSuggestModal } from "./marks-modal";
+import { ImportFileModal } from "./import-modal";
+import { buildJsonExport, buildMarkdownReport } from "./transfer";
+import { cleanUpPositions, describeCleanup } from "./cleanup";
+
+/**
+ * Get the active leaf if it shows a file.
+ */
+function getActiveFileLeaf(plugin: Plugin): WorkspaceLeaf | null {
+	const leaf = plugin.app.workspace.getMostRecentLeaf();
+	return leaf?.view instanceof FileView && leaf.view.file ? leaf : null;
+}
+
+/**
+ * Write an export to a new file in the vault root, adding a number to the
+ * name if it's taken.
+ */
+async function writeExport(plugin: Plugin, baseName: string, extension: string, content: string): Promise<TFile> {
+	const { vault } = plugin.app;
+	let path = normalizePath(`${baseName}.${extension}`);
+	for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+		path = normalizePath(`${baseName} ${i}.${extension}`);
+	}
+	return vault.create(path, content);
+}
+
+/**
+ * Register the export commands for the whole vault and the active note's folder.
+ */
+function registerExportCommands(plugin: Plugin, store: PositionStore): void {
+	const formats = [
+		{ id: "json", name: "JSON", extension: "json", build: buildJsonExport },
+		{ id: "markdown", name: "Markdown report", extension: "md", build: buildMarkdownReport },
+	];
+
+	const runExport = async (format: typeof formats[number], folder?: string) => {
+		const date = moment().format("YYYY-MM-DD");
+		const scope = folder ? ` (${folder.replace(/\//g, " - ")})` : "";
+		try {
+			const file = await writeExport(
+				plugin,
+				`Scroll positions ${date}${scope}`,
+				format.extension,
+				format.build(store.entries(), folder)
+			);
+			new Notice(`Exported positions to ${file.path}.`);
+		} catch (e) {
+			console.error("Remember Scroll Position: export failed:", e);
+			new Notice("Export failed. See the developer console for details.");
+		}
+	};
+
+	for (const format of formats) {
+		plugin.addCommand({
+			id: `export-${format.id}`,
+			name: `Export all positions (${format.name})`,
+			callback: () => { void runExport(format); },
+		});
+
+		plugin.addCommand({
+			id: `export-folder-${format.id}`,
+			name: `Export positions for this folder (${format.name})`,
+			checkCallback: (checking) => {
+				const folder = plugin.app.workspace.getActiveFile()?.parent;
+				if (!folder || folder.isRoot()) return false;
+				if (!checking) void runExport(format, folder.path);
+				return true;
+			},
+		});
+	}
+}
+
+/**
+ * Register command palette commands for managing positions.
+ * No default hotkeys are assigned; users can bind them in Settings → Hotkeys.
+ */
+export function registerCommands(plugin: Plugin, store: PositionStore, tracker: PositionTracker): void {
+	plugin.addCommand({
+		id: "restore-position",
+		name: "Restore saved position",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf) return false;
+			if (!checking && !tracker.restoreLeaf(leaf)) {
+				new Notice("No saved position for this note.");
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "jump-to-top",
+		name: "Jump to top (keep saved position)",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf || leaf.view.getViewType() !== "markdown") return false;
+			if (!checking) tracker.jumpToTop(leaf);
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "save-position",
+		name: "Save position now",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf) return false;
+			if (!checking) {
+				if (tracker.saveLeaf(leaf)) {
+					void store.flush();
+					new Notice("Position saved.");
+				} else {
+					new Notice("Nothing to save for this view.");
+				}
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "history-back",
+		name: "Go back in position history",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf || tracker.getHistory(leaf).length === 0) return false;
+			if (!checking && !tracker.navigateHistory(leaf, -1)) {
+				new Notice("No older position.");
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "history-forward",
+		name: "Go forward in position history",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf || tracker.getHistory(leaf).length === 0) return false;
+			if (!checking && !tracker.navigateHistory(leaf, 1)) {
+				new Notice("No newer position.");
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "show-history",
+		name: "Show position history",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf || tracker.getHistory(leaf).length === 0) return false;
+			if (!checking) {
+				// Record the current spot first so it's listed and indices stay stable
+				tracker.saveLeaf(leaf);
+				new HistoryModal(plugin.app, tracker, leaf).open();
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "add-mark",
+		name: "Add mark at current position",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf) return false;
+			if (!checking) {
+				const existing = tracker.getMarks(leaf).map((mark) => mark.name);
+				new MarkNameModal(plugin.app, existing, (name) => {
+					if (tracker.addMark(leaf, name)) {
+						new Notice(`Added mark "${name}".`);
+					} else {
+						new Notice("Can't add a mark in this view.");
+					}
+				}).open();
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "jump-to-mark",
+		name: "Jump to mark",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf || tracker.getMarks(leaf).length === 0) return false;
+			if (!checking) {
+				new MarkSuggestModal(plugin.app, leaf, tracker.getMarks(leaf), "Jump to a mark…",
+					(mark) => tracker.goToMark(leaf, mark)).open();
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "remove-mark",
+		name: "Remove mark",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			const file = plugin.app.workspace.getActiveFile();
+			if (!leaf || !file || tracker.getMarks(leaf).length === 0) return false;
+			if (!checking) {
+				new MarkSuggestModal(plugin.app, leaf, tracker.getMarks(leaf), "Remove a mark…", (mark) => {
+					store.deleteMark(file.path, mark.name);
+					new Notice(`Removed mark "${mark.name}".`);
+				}).open();
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "pin-note",
+		name: "Pin position for this note",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf || tracker.isPinned(leaf)) return false;
+			if (!checking) {
+				if (tracker.setPinned(leaf, true)) {
+					new Notice("Position pinned. It won't be evicted or expired.");
+				} else {
+					new Notice("Nothing to pin for this view.");
+				}
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "unpin-note",
+		name: "Unpin position for this note",
+		checkCallback: (checking) => {
+			const leaf = getActiveFileLeaf(plugin);
+			if (!leaf || !tracker.isPinned(leaf)) return false;
+			if (!checking) {
+				tracker.setPinned(leaf, false);
+				new Notice("Position unpinned.");
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "forget-note",
+		name: "Forget position for this note",
+		checkCallback: (checking) => {
+			const file = plugin.app.workspace.getActiveFile();
+			if (!file) return false;
+			if (!checking) {
+				store.delete(file.path);
+				new Notice(`Forgot saved position for ${file.basename}.`);
+			}
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "forget-folder",
+		name: "Forget positions for this folder",
+		checkCallback: (checking) => {
+			const folder = plugin.app.workspace.getActiveFile()?.parent;
+			if (!folder || folder.isRoot()) return false;
+			if (!checking) {
+				store.delete(folder.path);
+				new Notice(`Forgot saved positions in ${folder.path}.`);
+			}
+			return true;
+		},
+	});
+
+	registerExportCommands(plugin, store);
+
+	plugin.addCommand({
+		id: "import",
+		name: "Import positions",
+		callback: () => new ImportFileModal(plugin.app, store).open(),
+	});
+
+	plugin.addCommand({
+		id: "clean-up",
+		name: "Clean up positions of deleted notes",
+		callback: () => {
+			new Notice(describeCleanup(cleanUpPositions(plugin.app, store)));
+		},
+	});
+
+	plugin.addCommand({
+		id: "clear-all",
+		name: "Clear all positions",
+		callback: () => {
+			const count = store.size;
+			store.clear();
+			new Notice(`Cleared ${count} saved position${count === 1 ? "" : "s"}.`);
+		},
+	});
+}
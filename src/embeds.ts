@@ -0,0 +1,118 @@
+import { debounce, MarkdownPostProcessorContext, Plugin } from "obsidian";
+import { PluginSettings } from "./types";
+import { registerDocuments } from "./windows";
+import { waitForQuiet } from "./restore";
+
+/** Containers whose scroll is remembered: hover previews and embeds */
+const CONTAINER_SELECTOR = ".hover-popover, .markdown-embed";
+
+/** Scrolling elements inside a container, most specific first */
+const SCROLLER_SELECTORS = [".markdown-preview-view", ".cm-scroller", ".markdown-embed-content"];
+
+/** Maximum number of remembered embed positions */
+const MAX_ENTRIES = 200;
+
+/**
+ * Remembers the scroll position inside hover previews and embedded notes
+ * for the session, so reopening a preview (or re-rendering an embed) shows
+ * the same spot.
+ *
+ * Containers are recognised when their content is rendered: the markdown
+ * post-processor runs for preview and embed content and knows which file
+ * it belongs to. Positions are kept in memory only; they're only useful
+ * while the same previews keep being opened.
+ */
+export class EmbedScrollMemory {
+	private plugin: Plugin;
+	private settings: PluginSettings;
+
+	/** Key (file path and subpath) of each rendered container */
+	private containerKeys = new WeakMap<HTMLElement, string>();
+
+	/** Remembered scrollTop by key, least recently used first */
+	private positions = new Map<string, number>();
+
+	private onScrollDebounced = debounce((target: HTMLElement) => this.handleScroll(target), 200, false);
+
+	constructor(plugin: Plugin, settings: PluginSettings) {
+		this.plugin = plugin;
+		this.settings = settings;
+	}
+
+	/**
+	 * Register the post-processor and scroll listeners. Call once during plugin load.
+	 */
+	register(): void {
+		this.plugin.registerMarkdownPostProcessor((el, ctx) => this.handleRender(el, ctx));
+
+		registerDocuments(this.plugin, (doc) => {
+			this.plugin.registerDomEvent(doc, "scroll", (e: Event) => {
+				if (!this.settings.rememberEmbeds) return;
+				// instanceof fails for elements of popout windows
+				const target = e.target as Node | null;
+				if (target?.instanceOf(HTMLElement) && target.closest(CONTAINER_SELECTOR)) {
+					this.onScrollDebounced(target);
+				}
+			}, true);
+		});
+	}
+
+	/**
+	 * Note the container a rendered section belongs to and restore its
+	 * scroll position the first time it's seen.
+	 */
+	private handleRender(el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+		if (!this.settings.rememberEmbeds) return;
+
+		// Sections are rendered before they're attached; wait until they are
+		window.requestAnimationFrame(() => {
+			const container = el.closest<HTMLElement>(CONTAINER_SELECTOR);
+			if (!container || this.containerKeys.has(container)) return;
+
+			const key = this.getKey(container, ctx.sourcePath);
+			this.containerKeys.set(container, key);
+
+			const scrollTop = this.positions.get(key);
+			if (scrollTop === undefined) return;
+			// Wait for the rest of the content to render
+			void waitForQuiet(container).then(() => {
+				const scroller = this.findScroller(container);
+				if (scroller) scroller.scrollTop = scrollTop;
+			});
+		});
+	}
+
+	private handleScroll(target: HTMLElement): void {
+		const container = target.closest<HTMLElement>(CONTAINER_SELECTOR);
+		const key = container ? this.containerKeys.get(container) : undefined;
+		if (!key) return;
+
+		this.positions.delete(key);
+		this.positions.set(key, target.scrollTop);
+		if (this.positions.size > MAX_ENTRIES) {
+			const oldest = this.positions.keys().next().value;
+			if (oldest !== undefined) this.positions.delete(oldest);
+		}
+	}
+
+	/**
+	 * Key a container by the file it shows and, for embeds, the embedded
+	 * heading or block, so `![[note#a]]` and `![[note#b]]` are separate.
+	 */
+	private getKey(container: HTMLElement, sourcePath: string): string {
+		const src = container.getAttribute("src") ?? "";
+		const hash = src.indexOf("#");
+		return hash === -1 ? sourcePath : sourcePath + src.substring(hash);
+	}
+
+	/**
+	 * Find the element that scrolls inside a container.
+	 */
+	private findScroller(container: HTMLElement): HTMLElement | null {
+		for (const selector of SCROLLER_SELECTORS) {
+			const el = container.querySelector<HTMLElement>(selector);
+			if (el && el.scrollHeight > el.clientHeight) return el;
+		}
+		return container.scrollHeight > container.clientHeight ? container : null;
+	}
+}
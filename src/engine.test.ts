@@ -0,0 +1,355 @@
+import { describe, expect, it, vi } from "vitest";
+import { FakeWorkspace } from "./fake-host";
+import { PluginSettings } from "./types";
+
+/** Leaf ids, in the form Obsidian gives them */
+const A = "aaaaaaaaaaaaaaaa";
+const B = "bbbbbbbbbbbbbbbb";
+
+/**
+ * The scenarios behind the engine's key lessons, driven through the
+ * in-memory host.
+ */
+
+/** A workspace with its initial layout done */
+function workspace(settings: Partial<PluginSettings> = {}): FakeWorkspace {
+	const ws = new FakeWorkspace(settings);
+	ws.layoutReady();
+	return ws;
+}
+
+/** Open a note in a pane and scroll it to a line, with the restore settled */
+async function readTo(ws: FakeWorkspace, leafId: string, path: string, line: number): Promise<void> {
+	ws.open(leafId, path);
+	await ws.settle();
+	ws.scroll(line);
+}
+
+describe("saves during transitions", () => {
+	it("doesn't save while a pane is opening a file", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "a.md", 400);
+
+		// The pane becomes active and renders at the top before file-open
+		ws.activate(A);
+		ws.scroll(0);
+
+		expect(ws.store.get("a.md")?.scroll).toBe(400);
+	});
+
+	it("doesn't save while a restore runs", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, A, "b.md", 50);
+
+		// The note is still rendering when the restore has been applied
+		const view = ws.open(A, "a.md");
+		expect(view.restores).toHaveLength(1);
+		view.line = 0;
+		ws.engine.onScroll(view);
+		expect(ws.store.get("a.md")?.scroll).toBe(400);
+
+		await ws.settle();
+		ws.scroll(420);
+		expect(ws.store.get("a.md")?.scroll).toBe(420);
+	});
+
+	it("only blocks the pane that is opening", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, B, "b.md", 100);
+
+		ws.activate(A);
+		ws.engine.onScroll(ws.leaf(B));
+
+		expect(ws.store.get("b.md")?.scroll).toBe(100);
+		ws.leaf(B).line = 120;
+		ws.engine.onScroll(ws.leaf(B));
+		expect(ws.store.get("b.md")?.scroll).toBe(120);
+	});
+});
+
+describe("navigation sources", () => {
+	it("restores on a plain open", async () => {
+		const ws = workspace();
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, A, "b.md", 10);
+
+		const view = ws.open(A, "a.md");
+		await ws.settle();
+		expect(view.line).toBe(400);
+	});
+
+	it("leaves a flashing link target alone", async () => {
+		const ws = workspace();
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, A, "b.md", 10);
+
+		const view = ws.open(A, "a.md", { flashing: true });
+		await ws.settle();
+		expect(view.restores).toHaveLength(0);
+		expect(view.line).toBe(0);
+	});
+
+	it("leaves links alone unless told not to respect them", async () => {
+		const ws = workspace();
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, A, "b.md", 400);
+		await readTo(ws, A, "c.md", 10);
+		ws.open(A, "a.md", { source: "link" });
+		await ws.settle();
+		expect(ws.active?.line).toBe(0);
+
+		ws.settings.respectLinks = false;
+		ws.open(A, "b.md", { source: "link" });
+		await ws.settle();
+		expect(ws.active?.line).toBe(400);
+	});
+
+	it("follows the policy of each source", async () => {
+		const ws = workspace();
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, A, "b.md", 400);
+		await readTo(ws, A, "c.md", 10);
+
+		ws.open(A, "a.md", { source: "history" });
+		await ws.settle();
+		expect(ws.active?.line).toBe(0);
+
+		ws.open(A, "b.md", { source: "quick-switcher" });
+		await ws.settle();
+		expect(ws.active?.line).toBe(400);
+	});
+
+	it("drops a source whose file-open never came", async () => {
+		const ws = workspace();
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, A, "b.md", 10);
+
+		ws.engine.noteNavigation("history");
+		ws.clock.advance(5000);
+		ws.open(A, "a.md");
+		await ws.settle();
+		expect(ws.active?.line).toBe(400);
+	});
+});
+
+describe("pane keys", () => {
+	it("saves under the pane and the note", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 400);
+
+		expect(ws.store.get(`a.md#${A}`)?.scroll).toBe(400);
+		expect(ws.store.get("a.md")?.scroll).toBe(400);
+	});
+
+	it("falls back to the note position in a new pane", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 400);
+
+		const view = ws.open(B, "a.md");
+		await ws.settle();
+		expect(view.line).toBe(400);
+	});
+
+	it("keeps each pane's own position", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, B, "a.md", 100);
+		expect(ws.store.get("a.md")?.scroll).toBe(100);
+
+		await readTo(ws, A, "b.md", 10);
+		const view = ws.open(A, "a.md");
+		await ws.settle();
+		expect(view.line).toBe(400);
+	});
+});
+
+describe("renames", () => {
+	it("moves the positions of a file with every pane variant", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 400);
+
+		ws.rename("a.md", "renamed.md");
+		expect(ws.store.get("a.md")).toBeUndefined();
+		expect(ws.store.get(`renamed.md#${A}`)?.scroll).toBe(400);
+		expect(ws.store.get("renamed.md")?.scroll).toBe(400);
+	});
+
+	it("moves everything under a renamed folder", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "notes/a.md", 400);
+		await readTo(ws, A, "notes/deep/b.md", 200);
+		await readTo(ws, A, "notes-old/c.md", 100);
+
+		ws.rename("notes", "archive");
+		expect(ws.store.get("archive/a.md")?.scroll).toBe(400);
+		expect(ws.store.get("archive/deep/b.md")?.scroll).toBe(200);
+		expect(ws.store.get("notes-old/c.md")?.scroll).toBe(100);
+		expect(ws.store.get("notes/a.md")).toBeUndefined();
+	});
+
+	it("restores a renamed note in its pane", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 400);
+		ws.rename("a.md", "renamed.md");
+		await readTo(ws, A, "b.md", 10);
+
+		const view = ws.open(A, "renamed.md");
+		await ws.settle();
+		expect(view.line).toBe(400);
+	});
+});
+
+describe("restart", () => {
+	it("brings back positions, pins and marks", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "a.md", 400);
+		ws.engine.addMark(ws.active!, "chapter 2");
+		ws.engine.setPinned(ws.active!, true);
+		await readTo(ws, A, "b.md", 100);
+		const before = ws.store.entries();
+
+		await ws.restart();
+		expect(ws.store.entries()).toEqual(before);
+		expect(ws.store.getMarks("a.md").map((m) => m.name)).toEqual(["chapter 2"]);
+		expect(ws.store.get("a.md")?.pinned).toBe(true);
+	});
+
+	it("restores open panes once the layout is ready", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 400);
+
+		await ws.restart();
+		const view = ws.leaf(A);
+		view.line = 0;
+		ws.layoutReady();
+		await ws.settle();
+		expect(view.line).toBe(400);
+	});
+});
+
+describe("forgetting the first screen", () => {
+	it("doesn't keep a note only seen at the top", async () => {
+		const ws = workspace({ forgetFirstScreen: true });
+		await readTo(ws, A, "a.md", 10);
+
+		expect(ws.store.get("a.md")).toBeUndefined();
+		expect(ws.store.get(`a.md#${A}`)).toBeUndefined();
+	});
+
+	it("keeps the history and progress of a note scrolled back to the top", async () => {
+		const ws = workspace({ forgetFirstScreen: true });
+		await readTo(ws, A, "a.md", 960);
+		ws.active!.cursor = { line: 980, ch: 0 };
+		ws.scroll(960);
+		ws.active!.cursor = { line: 0, ch: 0 };
+		ws.scroll(0);
+
+		const stored = ws.store.get("a.md");
+		expect(stored?.scroll).toBe(0);
+		expect(stored?.finished).toBe(true);
+		expect(stored?.maxProgress).toBe(1);
+		expect(stored?.history?.map((h) => h.cursor?.to.line)).toEqual([980, 0]);
+		expect(ws.store.get(`a.md#${A}`)?.scroll).toBe(0);
+	});
+});
+
+describe("jump to top", () => {
+	it("keeps the saved position until the user moves", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "a.md", 400);
+		const view = ws.active!;
+
+		ws.engine.jumpToTop(view);
+		await ws.settle();
+		expect(view.line).toBe(0);
+
+		// Periodic saves, scroll events at the same spot and pane switches
+		ws.engine.save(view);
+		ws.scroll(0);
+		ws.activate(B);
+		expect(ws.store.get("a.md")?.scroll).toBe(400);
+
+		ws.activate(A);
+		ws.clock.advance(5000);
+		ws.scroll(30);
+		expect(ws.store.get("a.md")?.scroll).toBe(30);
+	});
+
+	it("stops holding once the pane opens another file", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "a.md", 400);
+		ws.engine.jumpToTop(ws.active!);
+		await ws.settle();
+
+		await readTo(ws, A, "b.md", 0);
+		expect(ws.store.get("a.md")?.scroll).toBe(400);
+		ws.scroll(0);
+		expect(ws.store.get("b.md")?.scroll).toBe(0);
+
+		const view = ws.open(A, "a.md");
+		await ws.settle();
+		expect(view.line).toBe(400);
+	});
+});
+
+describe("failed restores", () => {
+	it("unblock saves and report no restore", async () => {
+		const ws = workspace({ positionScope: "note" });
+		await readTo(ws, A, "a.md", 400);
+		await readTo(ws, A, "b.md", 10);
+		const view = ws.leaf(A);
+		view.restore = () => Promise.reject(new Error("malformed position"));
+		const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+		ws.open(A, "a.md");
+		await ws.settle();
+		ws.scroll(30);
+
+		expect(error).toHaveBeenCalled();
+		expect(ws.events.filter((e) => e.type === "restored")).toHaveLength(0);
+		expect(ws.store.get("a.md")?.scroll).toBe(30);
+		error.mockRestore();
+	});
+});
+
+describe("positions from another device", () => {
+	it("win over the pane positions of the note", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 100);
+		await readTo(ws, A, "b.md", 10);
+
+		ws.store.putRemote({ "a.md": { timestamp: 1000, scroll: 800 } });
+		expect(ws.store.get(`a.md#${A}`)).toBeUndefined();
+
+		const view = ws.open(A, "a.md");
+		await ws.settle();
+		expect(view.line).toBe(800);
+	});
+
+	it("leave the pane positions of other notes alone", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 100);
+		await readTo(ws, A, "b.md", 10);
+
+		ws.store.putRemote({ "c.md": { timestamp: 1000, scroll: 800 } });
+		expect(ws.store.get(`a.md#${A}`)?.scroll).toBe(100);
+	});
+});
+
+describe("positions set for a whole note", () => {
+	it("are restored in panes that had their own", async () => {
+		const ws = workspace({ positionScope: "pane" });
+		await readTo(ws, A, "a.md", 100);
+		await readTo(ws, A, "b.md", 10);
+
+		// As the API's setPosition does
+		ws.store.set("a.md", { timestamp: 1000, scroll: 120 });
+		ws.store.clearPanes("a.md");
+
+		const view = ws.open(A, "a.md");
+		await ws.settle();
+		expect(view.line).toBe(120);
+	});
+});
@@ -0,0 +1,526 @@
+import { NamedMark, NavigationSource, PluginSettings, SavedPosition } from "./types";
+import { PositionStore, isDistinctPosition } from "./store";
+import { makeKey } from "./keys";
+import { FINISHED_THRESHOLD } from "./progress";
+import { Clock, EngineEvents, PendingNavigation, ViewAdapter, WorkspaceListener } from "./host";
+
+/** How long saves stay blocked for a newly active pane if no file-open follows */
+const OPENING_TIMEOUT = 1000;
+
+/** How long a navigation source waits for its file-open before it's dropped */
+const SOURCE_TIMEOUT = 1000;
+
+/**
+ * Whether two captures of a pane show the same spot: same scroll, cursor
+ * and view state.
+ */
+function isSameSpot(a: SavedPosition, b: SavedPosition): boolean {
+	return a.scroll === b.scroll &&
+		a.scrollTop === b.scrollTop &&
+		a.cursor?.to.line === b.cursor?.to.line &&
+		a.cursor?.to.ch === b.cursor?.to.ch &&
+		JSON.stringify(a.view) === JSON.stringify(b.view);
+}
+
+/**
+ * The save and restore decisions of the plugin: when a position may be
+ * saved, which keys it goes under, and what to restore when a file opens.
+ *
+ * It doesn't depend on Obsidian. The host reports workspace events to it
+ * (see WorkspaceListener) and gives it a ViewAdapter for each pane; the
+ * tracker is the Obsidian host, fake-host.ts is an in-memory one.
+ *
+ * Key lessons (from debugging):
+ * - Saves must be blocked during file transitions to prevent overwriting with scroll=0;
+ *   each pane is blocked only while it opens a file or its own restore runs
+ * - Heading/block links and search results pick their own spot; restoring
+ *   over them loses what the user navigated to
+ * - The pane position is only a refinement: the note-level position is
+ *   what other panes, sync and the history use
+ */
+export class PositionEngine implements WorkspaceListener {
+	private store: PositionStore;
+	private settings: PluginSettings;
+	private clock: Clock;
+	private events: EngineEvents;
+
+	/** Whether the workspace has finished initial layout */
+	private layoutReady: boolean;
+
+	/** How the file about to be opened was navigated to */
+	private navigation: PendingNavigation | null = null;
+
+	/**
+	 * Panes that just became active, by leaf id, until their file-open is
+	 * handled. Saves for them are blocked so a newly-loading file's scroll=0
+	 * doesn't overwrite its stored position. Values are expiry times, in
+	 * case no file-open follows.
+	 */
+	private opening = new Map<string, number>();
+
+	/** Restores in flight, by leaf id; saves for these panes are blocked */
+	private restoring = new Map<string, number>();
+
+	/** Incremented for each restore, so a superseded one doesn't unblock saves */
+	private restoreCount = 0;
+
+	/** The last pane we tracked, so we can save its position on switch-away */
+	private lastView: ViewAdapter | null = null;
+
+	/** History index each note was navigated to, while the user stays there */
+	private historyNav = new Map<string, number>();
+
+	/**
+	 * Panes moved to the top without overwriting their saved position, by
+	 * leaf id, with the spot they were moved to. Saves stay blocked until
+	 * the user moves away from it or the pane opens another file.
+	 */
+	private held = new Map<string, { path: string; spot: SavedPosition }>();
+
+	constructor(store: PositionStore, settings: PluginSettings, clock: Clock, events: EngineEvents, layoutReady: boolean) {
+		this.store = store;
+		this.settings = settings;
+		this.clock = clock;
+		this.events = events;
+		this.layoutReady = layoutReady;
+	}
+
+	/**
+	 * Record the source of a navigation for the next file-open. A navigation
+	 * already in progress keeps its source, since it's the more specific one
+	 * (e.g. a graph click that opens a link that opens a file).
+	 * Returns the pending navigation, or null if one was already in progress.
+	 */
+	startNavigation(source: NavigationSource, expires = Infinity): PendingNavigation | null {
+		if (this.navigation && this.navigation.expires > this.clock.now()) return null;
+		this.navigation = { source, expires };
+		return this.navigation;
+	}
+
+	/**
+	 * Finish a navigation started by `startNavigation`. If its file-open
+	 * hasn't consumed it yet, it stays around briefly in case the event is late.
+	 */
+	endNavigation(pending: PendingNavigation | null): void {
+		if (pending && this.navigation === pending) {
+			pending.expires = this.clock.now() + SOURCE_TIMEOUT;
+		}
+	}
+
+	/**
+	 * Record the source of a navigation that has no end of its own, such
+	 * as a history step; it's dropped if no file-open follows shortly.
+	 */
+	noteNavigation(source: NavigationSource): void {
+		this.startNavigation(source, this.clock.now() + SOURCE_TIMEOUT);
+	}
+
+	/**
+	 * Restore all visible panes on startup.
+	 */
+	onLayoutReady(views: ViewAdapter[]): void {
+		if (this.layoutReady) return;
+		for (const view of views) {
+			if (view.path) this.autoRestore(view);
+		}
+		this.layoutReady = true;
+	}
+
+	/**
+	 * Save the outgoing pane's position, then block saves for the new pane
+	 * so its initial scroll=0 doesn't overwrite anything.
+	 */
+	onLeafActivated(view: ViewAdapter | null): void {
+		// Save the PREVIOUS pane's position before it's gone
+		if (this.lastView?.path) {
+			this.saveView(this.lastView);
+		}
+
+		// Track the new pane for next switch
+		this.lastView = view?.isTrackable() ? view : null;
+
+		if (view) this.opening.set(view.leafId, this.clock.now() + OPENING_TIMEOUT);
+	}
+
+	/**
+	 * Restore the saved position of a freshly opened file, unless the way
+	 * it was opened asks to leave it where it is.
+	 */
+	onFileOpen(view: ViewAdapter | null, flashing: boolean): void {
+		if (view) this.held.delete(view.leafId);
+		if (!this.layoutReady) {
+			this.release(view);
+			return;
+		}
+
+		const source = this.takeNavigation();
+
+		// Don't override position when navigating via heading/block links.
+		// The host only reports a flashing link target in the opened pane —
+		// a stale one in another split should not block restores here.
+		if (this.settings.respectLinks && (flashing || source === "link")) {
+			this.release(view);
+			return;
+		}
+		// Leave the position chosen by history, search, etc. if configured to
+		if (source !== "link" && this.settings.navigationPolicies[source] === "skip") {
+			this.release(view);
+			return;
+		}
+		if (!view?.path) {
+			this.release(view);
+			return;
+		}
+
+		this.autoRestore(view);
+	}
+
+	/**
+	 * Save the position of the active pane, if it's trackable.
+	 */
+	onScroll(view: ViewAdapter | null): void {
+		if (!this.layoutReady || !view?.isTrackable()) return;
+
+		// Keep lastView in sync
+		this.lastView = view;
+
+		this.saveView(view);
+	}
+
+	/**
+	 * Show the same passage after a mode toggle: the new mode keeps its own
+	 * pixel offset.
+	 */
+	onModeChange(view: ViewAdapter): void {
+		if (!this.layoutReady || this.isBusy(view.leafId)) return;
+
+		const saved = this.getSavedPosition(view);
+		if (!saved) return;
+		void this.track(view, view.restore(saved, false));
+	}
+
+	/**
+	 * Restore the saved position of a pane (or `position`, if given) right
+	 * away, regardless of how the file was opened. Returns false if nothing
+	 * is saved for it.
+	 */
+	restore(view: ViewAdapter, position?: SavedPosition): boolean {
+		if (!view.isTrackable() || !(position ?? this.getSavedPosition(view))) return false;
+
+		this.restorePosition(view, position);
+		return true;
+	}
+
+	/**
+	 * Apply `position` to a pane that was just opened, unless it has a saved
+	 * position of its own (which file-open restores).
+	 */
+	restoreOpened(view: ViewAdapter, position: SavedPosition): void {
+		if (this.getSavedPosition(view)) return;
+		this.restorePosition(view, position);
+	}
+
+	/**
+	 * Move a pane to the top of its note without overwriting the saved
+	 * position, so it can still be restored later.
+	 */
+	jumpToTop(view: ViewAdapter): void {
+		const path = view.path;
+		const moving = view.restoreEdge("top");
+		if (!path || !moving) return;
+
+		void this.track(view, moving).then(() => {
+			const spot = view.capture();
+			if (spot && view.path === path) this.held.set(view.leafId, { path, spot });
+		});
+	}
+
+	/**
+	 * Save the position of a pane immediately. Returns false if the pane
+	 * has no trackable position.
+	 */
+	save(view: ViewAdapter): boolean {
+		if (!view.isTrackable()) return false;
+		return this.saveView(view);
+	}
+
+	/**
+	 * Get the position history of a pane's note, oldest first.
+	 */
+	getHistory(view: ViewAdapter): SavedPosition[] {
+		const key = this.getNoteKey(view);
+		return key ? this.store.getHistory(key) : [];
+	}
+
+	/**
+	 * Step back (-1) or forward (1) through a pane's position history.
+	 * Returns false if there is no entry in that direction.
+	 */
+	navigateHistory(view: ViewAdapter, step: -1 | 1): boolean {
+		const key = this.getNoteKey(view);
+		if (!key) return false;
+
+		// Record the spot we're leaving first, so it's the newest entry
+		if (!this.historyNav.has(key)) {
+			this.saveView(view);
+		}
+		const history = this.store.getHistory(key);
+		const current = this.historyNav.get(key) ?? history.length - 1;
+		return this.goToHistory(view, current + step);
+	}
+
+	/**
+	 * Move a pane to an entry of its position history.
+	 * Returns false if the entry doesn't exist.
+	 */
+	goToHistory(view: ViewAdapter, index: number): boolean {
+		const key = this.getNoteKey(view);
+		if (!key) return false;
+
+		// Make sure the spot we're leaving is in the history before moving
+		if (!this.historyNav.has(key)) {
+			this.saveView(view);
+		}
+		const entry = this.store.getHistory(key)[index];
+		if (!entry) return false;
+
+		this.historyNav.set(key, index);
+		void this.track(view, view.restore(entry, this.settings.restoreCursor));
+		return true;
+	}
+
+	/**
+	 * Pin or unpin a pane's note so its position is never evicted or expired.
+	 * The current position is saved first. Returns false if there is none.
+	 */
+	setPinned(view: ViewAdapter, pinned: boolean): boolean {
+		const key = this.getNoteKey(view);
+		if (!key) return false;
+		if (pinned) {
+			this.save(view);
+			// Positions near the top may not have been kept
+			const position = this.store.get(key) ? null : view.capture();
+			if (position) this.store.set(key, position);
+		}
+		return this.store.setPinned(key, pinned);
+	}
+
+	/**
+	 * Whether a pane's note is pinned.
+	 */
+	isPinned(view: ViewAdapter): boolean {
+		const key = this.getNoteKey(view);
+		return !!(key && this.store.get(key)?.pinned);
+	}
+
+	/**
+	 * Add a named mark at a pane's current position, replacing any mark of
+	 * the same name. Returns false if the pane has no trackable position.
+	 */
+	addMark(view: ViewAdapter, name: string): boolean {
+		if (!view.isTrackable()) return false;
+		const key = this.getNoteKey(view);
+		const position = view.capture();
+		if (!key || !position || this.store.isExcluded(key)) return false;
+
+		this.store.setMark(key, { ...position, name });
+		return true;
+	}
+
+	/**
+	 * Get the named marks of a pane's note.
+	 */
+	getMarks(view: ViewAdapter): NamedMark[] {
+		const key = this.getNoteKey(view);
+		return key ? this.store.getMarks(key) : [];
+	}
+
+	/**
+	 * Move a pane to one of its note's marks.
+	 */
+	goToMark(view: ViewAdapter, mark: NamedMark): void {
+		void this.track(view, view.restore(mark, this.settings.restoreCursor));
+	}
+
+	/**
+	 * Get the store key a pane's position is saved under. With per-pane
+	 * tracking this includes the leaf's id, which is persisted with the
+	 * workspace layout and survives moving the tab to another split.
+	 */
+	getFileKey(view: ViewAdapter): string | null {
+		if (!view.path) return null;
+		return this.settings.positionScope === "pane"
+			? makeKey(view.path, view.leafId)
+			: view.path;
+	}
+
+	/**
+	 * Get the position to restore for a pane: its own position, falling
+	 * back to the note-level one.
+	 */
+	getSavedPosition(view: ViewAdapter): SavedPosition | undefined {
+		const key = this.getFileKey(view);
+		const noteKey = this.getNoteKey(view);
+		if (!key || !noteKey) return undefined;
+		return this.store.get(key) ?? this.store.get(noteKey);
+	}
+
+	/**
+	 * Get the note-level store key of a pane, shared by all panes.
+	 */
+	private getNoteKey(view: ViewAdapter): string | null {
+		return view.path;
+	}
+
+	/**
+	 * Take the source of the navigation that caused the current file-open.
+	 */
+	private takeNavigation(): NavigationSource {
+		const navigation = this.navigation;
+		this.navigation = null;
+		return navigation && navigation.expires > this.clock.now() ? navigation.source : "other";
+	}
+
+	/**
+	 * Restore a pane's position after it was opened, following the restore
+	 * rules for its note.
+	 */
+	private autoRestore(view: ViewAdapter): void {
+		const behaviour = view.getBehaviour();
+		switch (behaviour) {
+			case "ignore":
+				this.release(view);
+				return;
+			case "top":
+			case "bottom": {
+				const moving = view.restoreEdge(behaviour);
+				if (moving) {
+					void this.track(view, moving);
+				} else {
+					this.release(view);
+				}
+				return;
+			}
+			default:
+				this.restorePosition(view, undefined, behaviour === "scroll-only" ? false : undefined);
+		}
+	}
+
+	/**
+	 * Restore the saved position of a pane, or `position` if given.
+	 */
+	private restorePosition(
+		view: ViewAdapter,
+		position?: SavedPosition,
+		restoreCursor = this.settings.restoreCursor
+	): void {
+		const saved = view.path ? position ?? this.getSavedPosition(view) : undefined;
+		if (!saved) {
+			this.release(view);
+			return;
+		}
+
+		void this.track(view, view.restore(saved, restoreCursor)).then((reached) => {
+			if (reached) this.events.restored(view, saved);
+		});
+	}
+
+	/**
+	 * Block saves for a pane while it moves. Resolves to whether the move
+	 * reached its target; a move that fails counts as not reached.
+	 */
+	private track(view: ViewAdapter, moving: Promise<boolean>): Promise<boolean> {
+		const id = ++this.restoreCount;
+		this.opening.delete(view.leafId);
+		this.restoring.set(view.leafId, id);
+		return moving
+			.catch((e) => {
+				console.error("Remember Scroll Position: failed to restore position:", e);
+				return false;
+			})
+			.finally(() => {
+				if (this.restoring.get(view.leafId) === id) this.restoring.delete(view.leafId);
+			});
+	}
+
+	/**
+	 * Whether saves for a pane are blocked because it's opening or being restored.
+	 */
+	private isBusy(leafId: string): boolean {
+		if (this.restoring.has(leafId)) return true;
+		const expires = this.opening.get(leafId);
+		if (expires === undefined) return false;
+		if (expires > this.clock.now()) return true;
+		this.opening.delete(leafId);
+		return false;
+	}
+
+	/**
+	 * Whether a pane is still on the spot "jump to top" left it at, so its
+	 * saved position must stay. Stops holding once it has moved.
+	 */
+	private isHeld(view: ViewAdapter, position: SavedPosition): boolean {
+		const held = this.held.get(view.leafId);
+		if (!held) return false;
+		if (held.path === view.path && isSameSpot(held.spot, position)) return true;
+		this.held.delete(view.leafId);
+		return false;
+	}
+
+	/**
+	 * Stop blocking saves for a pane whose file-open needed no restore.
+	 */
+	private release(view: ViewAdapter | null): void {
+		if (view) this.opening.delete(view.leafId);
+	}
+
+	/**
+	 * Save the position of a pane. Returns whether a position was saved.
+	 */
+	private saveView(view: ViewAdapter): boolean {
+		if (!view.path || this.store.isExcluded(view.path) || this.isBusy(view.leafId)) return false;
+		if (view.getBehaviour() === "ignore") return false;
+		const key = this.getFileKey(view);
+		const noteKey = this.getNoteKey(view);
+		if (!key || !noteKey) return false;
+		const position = view.capture();
+		if (!position || this.isHeld(view, position)) return false;
+
+		const progress = view.measureProgress(position);
+		if (progress !== null) {
+			position.progress = progress;
+			if (progress >= FINISHED_THRESHOLD) position.finished = true;
+		}
+
+		// While the user stays on a spot reached through history navigation,
+		// don't record it again — that would reorder the history being walked.
+		let recordHistory = true;
+		const navIndex = this.historyNav.get(noteKey);
+		if (navIndex !== undefined) {
+			const target = this.store.getHistory(noteKey)[navIndex];
+			if (target && !isDistinctPosition(target, position)) {
+				recordHistory = false;
+			} else {
+				this.historyNav.delete(noteKey);
+			}
+		}
+
+		// A position within the first screen adds nothing over opening at
+		// the top. Pinned and marked notes, and notes read further before,
+		// keep tracking theirs so their history and progress stay.
+		const forgetting = this.settings.forgetFirstScreen && view.isWithinFirstScreen(position);
+		if (forgetting) {
+			this.store.forget(key);
+			this.store.forget(noteKey);
+			if (!this.store.get(noteKey)) return true;
+		}
+		if (key !== noteKey && (!forgetting || this.store.get(key))) {
+			// The note-level position follows the latest pane and keeps the
+			// note's history; it's what panes without a position of their own use
+			this.store.set(key, { ...position }, false);
+		}
+		this.store.set(noteKey, position, recordHistory);
+		this.events.saved(view, position);
+		return true;
+	}
+}
@@ -0,0 +1,267 @@
+import { DEFAULT_SETTINGS, NavigationSource, PluginSettings, RestoreBehaviour, SavedPosition } from "./types";
+import { PositionStore } from "./store";
+import { PositionEngine } from "./engine";
+import { Clock, StorageBackend, ViewAdapter } from "./host";
+
+/**
+ * An in-memory host for the PositionEngine, so its save and restore
+ * decisions can be driven headless, without Obsidian or a DOM. It isn't
+ * part of the plugin bundle.
+ */
+
+/**
+ * A clock that only moves when told to.
+ */
+export class FakeClock implements Clock {
+	private time = 0;
+	private timers = new Map<number, { at: number; callback: () => void }>();
+	private nextId = 1;
+
+	now(): number {
+		return this.time;
+	}
+
+	setTimeout(callback: () => void, ms: number): number {
+		const id = this.nextId++;
+		this.timers.set(id, { at: this.time + ms, callback });
+		return id;
+	}
+
+	clearTimeout(id: number): void {
+		this.timers.delete(id);
+	}
+
+	/**
+	 * Move time forward, running timers that come due in order.
+	 */
+	advance(ms: number): void {
+		const end = this.time + ms;
+		for (;;) {
+			let due: [number, { at: number; callback: () => void }] | null = null;
+			for (const entry of this.timers) {
+				if (entry[1].at <= end && (!due || entry[1].at < due[1].at)) due = entry;
+			}
+			if (!due) break;
+			this.timers.delete(due[0]);
+			this.time = due[1].at;
+			due[1].callback();
+		}
+		this.time = end;
+	}
+}
+
+/**
+ * A storage backend that keeps a copy of what was last saved.
+ */
+export class MemoryBackend implements StorageBackend {
+	positions: Record<string, SavedPosition> = {};
+	/** Number of saves so far */
+	saves = 0;
+	/** Positions handed out by the next `resolvePending` */
+	pending: Record<string, SavedPosition> = {};
+
+	async load(): Promise<Record<string, SavedPosition>> {
+		return structuredClone(this.positions);
+	}
+
+	async save(positions: Record<string, SavedPosition>): Promise<void> {
+		this.positions = structuredClone(positions);
+		this.saves++;
+	}
+
+	async resolvePending(): Promise<Record<string, SavedPosition>> {
+		const pending = this.pending;
+		this.pending = {};
+		return pending;
+	}
+}
+
+/**
+ * A pane showing a note as lines. Restores land on the target unless
+ * `settles` is false, which stands in for a view that never finishes
+ * rendering.
+ */
+export class FakeView implements ViewAdapter {
+	path: string | null = null;
+	/** Top visible line */
+	line = 0;
+	/** Cursor line and column */
+	cursor = { line: 0, ch: 0 };
+	/** Lines in the shown note */
+	lineCount = 1000;
+	/** Lines visible on one screen */
+	screenLines = 40;
+	behaviour: RestoreBehaviour = "restore";
+	settles = true;
+	/** Positions applied by restores, oldest first */
+	restores: SavedPosition[] = [];
+
+	constructor(readonly leafId: string, private clock: Clock) {}
+
+	isTrackable(): boolean {
+		return this.path !== null;
+	}
+
+	getBehaviour(): RestoreBehaviour {
+		return this.behaviour;
+	}
+
+	capture(): SavedPosition | null {
+		if (!this.path) return null;
+		return {
+			timestamp: this.clock.now(),
+			mode: "source",
+			scroll: this.line,
+			cursor: { from: { ...this.cursor }, to: { ...this.cursor } },
+		};
+	}
+
+	measureProgress(position: SavedPosition): number | null {
+		const last = Math.max(1, this.lineCount - this.screenLines);
+		return Math.min(1, (position.scroll ?? 0) / last);
+	}
+
+	isWithinFirstScreen(position: SavedPosition): boolean {
+		return (position.scroll ?? 0) < this.screenLines && this.cursor.line === 0 && this.cursor.ch === 0;
+	}
+
+	restore(position: SavedPosition, restoreCursor: boolean): Promise<boolean> {
+		this.restores.push(position);
+		if (!this.settles) return Promise.resolve(false);
+		this.line = position.scroll ?? position.anchor?.line ?? this.line;
+		if (restoreCursor && position.cursor) this.cursor = { ...position.cursor.to };
+		return Promise.resolve(true);
+	}
+
+	restoreEdge(edge: "top" | "bottom"): Promise<boolean> {
+		this.line = edge === "top" ? 0 : Math.max(0, this.lineCount - this.screenLines);
+		return Promise.resolve(true);
+	}
+}
+
+/**
+ * Options for opening a file in a FakeWorkspace.
+ */
+export interface FakeOpenOptions {
+	/** How the file was navigated to; none means a plain click */
+	source?: NavigationSource;
+	/** Whether a heading or block link target is highlighted */
+	flashing?: boolean;
+}
+
+/**
+ * A workspace of fake panes around a real PositionStore and PositionEngine.
+ * Its methods fire engine events in the order Obsidian does.
+ */
+export class FakeWorkspace {
+	readonly clock = new FakeClock();
+	readonly backend = new MemoryBackend();
+	readonly settings: PluginSettings;
+	store: PositionStore;
+	engine: PositionEngine;
+	readonly views = new Map<string, FakeView>();
+	active: FakeView | null = null;
+	/** Engine events so far, oldest first */
+	readonly events: { type: "saved" | "restored"; path: string | null; position: SavedPosition }[] = [];
+
+	constructor(settings: Partial<PluginSettings> = {}) {
+		this.settings = {
+			...DEFAULT_SETTINGS,
+			rules: [],
+			excludedFolders: [],
+			navigationPolicies: { ...DEFAULT_SETTINGS.navigationPolicies },
+			...settings,
+		};
+		this.store = new PositionStore(this.settings, this.backend, this.clock);
+		this.engine = this.createEngine();
+	}
+
+	/**
+	 * Get a pane by id, creating it if needed.
+	 */
+	leaf(leafId: string): FakeView {
+		let view = this.views.get(leafId);
+		if (!view) {
+			view = new FakeView(leafId, this.clock);
+			this.views.set(leafId, view);
+		}
+		return view;
+	}
+
+	/**
+	 * Finish the initial layout, restoring every pane that shows a file.
+	 */
+	layoutReady(): void {
+		this.engine.onLayoutReady([...this.views.values()]);
+	}
+
+	/**
+	 * Make a pane active.
+	 */
+	activate(leafId: string): FakeView {
+		const view = this.leaf(leafId);
+		this.active = view;
+		this.engine.onLeafActivated(view);
+		return view;
+	}
+
+	/**
+	 * Open a file in a pane: the pane becomes active, the file renders at
+	 * the top (which scrolls), then file-open fires.
+	 */
+	open(leafId: string, path: string, options: FakeOpenOptions = {}): FakeView {
+		if (options.source) this.engine.noteNavigation(options.source);
+		const view = this.activate(leafId);
+		view.path = path;
+		view.line = 0;
+		view.cursor = { line: 0, ch: 0 };
+		this.engine.onScroll(view);
+		this.engine.onFileOpen(view, !!options.flashing);
+		return view;
+	}
+
+	/**
+	 * Scroll the active pane to a line.
+	 */
+	scroll(line: number): void {
+		if (!this.active) return;
+		this.active.line = line;
+		this.engine.onScroll(this.active);
+	}
+
+	/**
+	 * Let pending restores finish and stop blocking saves.
+	 */
+	async settle(): Promise<void> {
+		await new Promise<void>((resolve) => setTimeout(resolve, 0));
+	}
+
+	/**
+	 * Rename or move a file or folder, as the vault does.
+	 */
+	rename(oldPath: string, newPath: string): void {
+		for (const view of this.views.values()) {
+			if (view.path === oldPath) view.path = newPath;
+		}
+		this.store.rename(oldPath, newPath);
+	}
+
+	/**
+	 * Write positions, then start over with a new store and engine loaded
+	 * from the same backend, keeping the panes — like restarting Obsidian.
+	 */
+	async restart(): Promise<void> {
+		await this.store.flush();
+		this.store = new PositionStore(this.settings, this.backend, this.clock);
+		await this.store.load();
+		this.engine = this.createEngine();
+		this.active = null;
+	}
+
+	private createEngine(): PositionEngine {
+		return new PositionEngine(this.store, this.settings, this.clock, {
+			saved: (view, position) => this.events.push({ type: "saved", path: view.path, position }),
+			restored: (view, position) => this.events.push({ type: "restored", path: view.path, position }),
+		}, false);
+	}
+}
@@ -0,0 +1,244 @@
+import { SavedPosition } from "./types";
+
+/** Identifies a positions file */
+export const FILE_FORMAT = "remember-scroll-position";
+
+/**
+ * Current on-disk format version.
+ *
+ * 1: bare `{ [key]: SavedPosition }` object (no header)
+ * 2: `{ header, positions }`
+ */
+export const FORMAT_VERSION = 2;
+
+/**
+ * Header written at the top of every positions file.
+ */
+export interface PositionsFileHeader {
+	format: typeof FILE_FORMAT;
+	version: number;
+	/** Device that wrote the file */
+	deviceId: string;
+	/** Plugin version that wrote the file */
+	pluginVersion: string;
+	/** ISO timestamp of the write */
+	written: string;
+	/** Whether keys are salted hashes of the note paths (privacy mode) */
+	hashed?: boolean;
+}
+
+/**
+ * On-disk positions file (current version).
+ */
+export interface PositionsFile {
+	header: PositionsFileHeader;
+	positions: Record<string, unknown>;
+}
+
+/**
+ * Result of decoding a positions file.
+ */
+export interface DecodedPositions {
+	positions: Record<string, SavedPosition>;
+	/** Header of the file, after migration */
+	header: PositionsFileHeader;
+	/** Number of malformed entries that were dropped */
+	dropped: number;
+	/** Whether the file was in an older format and should be rewritten */
+	migrated: boolean;
+}
+
+/**
+ * Migrations from each version to the next, keyed by the version they upgrade from.
+ * Add an entry here (and bump FORMAT_VERSION) when the format changes.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+	1: (data): PositionsFile => ({
+		header: {
+			format: FILE_FORMAT,
+			version: 2,
+			deviceId: "",
+			pluginVersion: "",
+			written: new Date(0).toISOString(),
+		},
+		positions: data as Record<string, unknown>,
+	}),
+};
+
+/**
+ * Work out which format version parsed file data is in.
+ */
+function detectVersion(data: unknown): number {
+	const header = (data as Partial<PositionsFile>).header;
+	if (header && typeof header === "object" && header.format === FILE_FORMAT) {
+		return header.version;
+	}
+	return 1;
+}
+
+/**
+ * Serialize positions with a header. `hashed` marks keys as path hashes.
+ */
+export function encodePositions(
+	positions: Record<string, SavedPosition>,
+	deviceId: string,
+	pluginVersion: string,
+	hashed = false
+): string {
+	const file: PositionsFile = {
+		header: {
+			format: FILE_FORMAT,
+			version: FORMAT_VERSION,
+			deviceId,
+			pluginVersion,
+			written: new Date().toISOString(),
+		},
+		positions,
+	};
+	if (hashed) file.header.hashed = true;
+	return JSON.stringify(file);
+}
+
+/**
+ * Parse, migrate and validate a positions file.
+ *
+ * Throws if the file can't be parsed at all or was written by a newer
+ * format version; individual malformed entries are dropped instead.
+ */
+export function decodePositions(text: string): DecodedPositions {
+	let data: unknown = JSON.parse(text);
+	if (!data || typeof data !== "object" || Array.isArray(data)) {
+		throw new Error("positions file is not an object");
+	}
+
+	const original = detectVersion(data);
+	if (original > FORMAT_VERSION) {
+		throw new Error(`positions file version ${original} is newer than supported (${FORMAT_VERSION})`);
+	}
+	for (let version = original; version < FORMAT_VERSION; version++) {
+		data = MIGRATIONS[version](data);
+	}
+
+	const file = data as PositionsFile;
+	const raw = file.positions && typeof file.positions === "object" ? file.positions : {};
+	const positions: Record<string, SavedPosition> = {};
+	let dropped = 0;
+	for (const key of Object.keys(raw)) {
+		const position = validatePosition(raw[key]);
+		if (position) {
+			positions[key] = position;
+		} else {
+			dropped++;
+		}
+	}
+
+	return { positions, header: file.header, dropped, migrated: original < FORMAT_VERSION };
+}
+
+function isNumber(value: unknown): value is number {
+	return typeof value === "number" && isFinite(value);
+}
+
+function isEditorPosition(value: unknown): boolean {
+	const pos = value as { line?: unknown; ch?: unknown } | null;
+	return !!pos && isNumber(pos.line) && pos.line >= 0 && isNumber(pos.ch) && pos.ch >= 0;
+}
+
+function isEditorRange(value: unknown): boolean {
+	const range = value as { from?: unknown; to?: unknown } | null;
+	return !!range && isEditorPosition(range.from) && isEditorPosition(range.to);
+}
+
+function isFold(value: unknown): boolean {
+	const fold = value as { from?: unknown; to?: unknown } | null;
+	return !!fold && isNumber(fold.from) && isNumber(fold.to) && fold.from >= 0 && fold.to >= fold.from;
+}
+
+function isAnchor(value: unknown): boolean {
+	const anchor = value as Record<string, unknown> | null;
+	return !!anchor &&
+		isNumber(anchor.line) &&
+		Array.isArray(anchor.headings) &&
+		anchor.headings.every((h) => typeof h === "string") &&
+		isNumber(anchor.sectionOffset) &&
+		typeof anchor.fingerprint === "string" &&
+		(anchor.blockId === undefined || typeof anchor.blockId === "string") &&
+		(anchor.blockOffset === undefined || isNumber(anchor.blockOffset));
+}
+
+function isViewPosition(value: unknown): boolean {
+	const view = value as { type?: unknown; data?: unknown } | null;
+	if (!view || typeof view.type !== "string" || !view.data || typeof view.data !== "object") {
+		return false;
+	}
+	return Object.values(view.data).every((v) =>
+		typeof v === "string" || typeof v === "boolean" || isNumber(v)
+	);
+}
+
+/**
+ * Validate a single stored position. Malformed optional fields are removed;
+ * returns null if the entry has no valid timestamp or nothing left to restore.
+ * History entries and marks (`nested`) can't have history or marks themselves.
+ */
+export function validatePosition(value: unknown, nested = false): SavedPosition | null {
+	if (!value || typeof value !== "object") return null;
+	const position = { ...(value as Record<string, unknown>) };
+	if (!isNumber(position.timestamp)) return null;
+
+	if (position.scroll !== undefined && !isNumber(position.scroll)) delete position.scroll;
+	if (position.scrollTop !== undefined && !isNumber(position.scrollTop)) delete position.scrollTop;
+	if (position.mode !== undefined && position.mode !== "source" && position.mode !== "preview") delete position.mode;
+
+	if (position.cursor !== undefined && !isEditorRange(position.cursor)) delete position.cursor;
+	if (position.selections !== undefined &&
+		!(Array.isArray(position.selections) && position.selections.every(isEditorRange))) {
+		delete position.selections;
+	}
+	if (position.folds !== undefined && !(Array.isArray(position.folds) && position.folds.every(isFold))) {
+		delete position.folds;
+	}
+	if (position.anchor !== undefined && !isAnchor(position.anchor)) delete position.anchor;
+	if (position.view !== undefined && !isViewPosition(position.view)) delete position.view;
+
+	for (const field of ["progress", "maxProgress"]) {
+		const v = position[field];
+		if (v !== undefined && !(isNumber(v) && v >= 0 && v <= 1)) delete position[field];
+	}
+	if (position.finished !== undefined && typeof position.finished !== "boolean") delete position.finished;
+	if (position.pinned !== undefined && position.pinned !== true) delete position.pinned;
+
+	if (position.history !== undefined) {
+		if (!nested && Array.isArray(position.history)) {
+			const history = position.history
+				.map((entry) => validatePosition(entry, true))
+				.filter((entry): entry is SavedPosition => entry !== null);
+			if (history.length) {
+				position.history = history;
+			} else {
+				delete position.history;
+			}
+		} else {
+			delete position.history;
+		}
+	}
+
+	if (position.marks !== undefined) {
+		const marks = !nested && Array.isArray(position.marks)
+			? position.marks
+				.filter((mark) => typeof (mark as { name?: unknown } | null)?.name === "string")
+				.map((mark) => validatePosition(mark, true))
+				.filter((mark): mark is SavedPosition => mark !== null)
+			: [];
+		if (marks.length) {
+			position.marks = marks;
+		} else {
+			delete position.marks;
+		}
+	}
+
+	const restorable = ["scroll", "scrollTop", "cursor", "anchor", "view"].some(
+		(field) => position[field] !== undefined
+	);
+	return restorable ? position as unknown as SavedPosition : null;
+}
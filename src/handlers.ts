@@ -0,0 +1,206 @@
+import { FileView } from "obsidian";
+import { ViewPositionData } from "./types";
+
+/**
+ * Captures and restores position for one kind of non-markdown view.
+ *
+ * Handlers work against Obsidian internals (PDF.js viewer, canvas viewport,
+ * media elements) that aren't part of the public API, so every access is
+ * defensive: a missing property means "can't capture" rather than an error.
+ */
+export interface ViewPositionHandler {
+	/** View types handled (as returned by `view.getViewType()`) */
+	viewTypes: string[];
+	/** Capture the view's current position, or null if not available */
+	capture(view: FileView): ViewPositionData | null;
+	/** Apply a previously captured position to the view */
+	apply(view: FileView, data: ViewPositionData): void;
+	/** Whether the view has loaded enough to apply a position (default: true) */
+	isReady?(view: FileView): boolean;
+}
+
+/** Subset of the PDF.js viewer used by Obsidian's PDF view */
+interface PdfJsViewer {
+	pagesCount: number;
+	currentPageNumber: number;
+	currentScaleValue: string;
+	container?: HTMLElement;
+}
+
+/** Subset of Obsidian's internal canvas object */
+interface CanvasInternal {
+	x: number;
+	y: number;
+	zoom: number;
+	setViewport?(x: number, y: number, zoom: number): void;
+	tx?: number;
+	ty?: number;
+	tZoom?: number;
+	markViewportChanged?(): void;
+}
+
+/**
+ * Get the PDF.js viewer of a PDF view, if it has loaded.
+ */
+function getPdfViewer(view: FileView): PdfJsViewer | null {
+	const viewer = (view as unknown as {
+		viewer?: { child?: { pdfViewer?: { pdfViewer?: PdfJsViewer } } };
+	}).viewer;
+	return viewer?.child?.pdfViewer?.pdfViewer ?? null;
+}
+
+/**
+ * Get the internal canvas of a canvas view.
+ */
+function getCanvas(view: FileView): CanvasInternal | null {
+	return (view as unknown as { canvas?: CanvasInternal }).canvas ?? null;
+}
+
+/**
+ * Find the main scrollable element inside a view's content.
+ */
+function findScroller(view: FileView): HTMLElement | null {
+	const root = view.contentEl;
+	if (root.scrollHeight > root.clientHeight || root.scrollWidth > root.clientWidth) {
+		return root;
+	}
+	const candidates = root.querySelectorAll<HTMLElement>("*");
+	for (let i = 0; i < candidates.length; i++) {
+		const el = candidates[i];
+		if (el.scrollHeight > el.clientHeight || el.scrollWidth > el.clientWidth) {
+			const overflow = window.getComputedStyle(el).overflowY;
+			if (overflow === "auto" || overflow === "scroll") return el;
+		}
+	}
+	return null;
+}
+
+/**
+ * PDF view: page, zoom and offset within the page.
+ */
+const pdfHandler: ViewPositionHandler = {
+	viewTypes: ["pdf"],
+
+	capture(view) {
+		const viewer = getPdfViewer(view);
+		if (!viewer || !viewer.pagesCount) return null;
+		return {
+			page: viewer.currentPageNumber,
+			pages: viewer.pagesCount,
+			scale: viewer.currentScaleValue,
+			scrollTop: viewer.container?.scrollTop ?? 0,
+			scrollLeft: viewer.container?.scrollLeft ?? 0,
+		};
+	},
+
+	apply(view, data) {
+		const viewer = getPdfViewer(view);
+		if (!viewer) return;
+		if (typeof data.scale === "string") {
+			viewer.currentScaleValue = data.scale;
+		}
+		// Scale is restored first so the pixel offset means the same thing it did
+		// when captured; the page number is the fallback if there's no container.
+		if (viewer.container && typeof data.scrollTop === "number") {
+			viewer.container.scrollTop = data.scrollTop;
+			viewer.container.scrollLeft = typeof data.scrollLeft === "number" ? data.scrollLeft : 0;
+		} else if (typeof data.page === "number") {
+			viewer.currentPageNumber = data.page;
+		}
+	},
+
+	isReady(view) {
+		return (getPdfViewer(view)?.pagesCount ?? 0) > 0;
+	},
+};
+
+/**
+ * Canvas view: viewport pan and zoom.
+ */
+const canvasHandler: ViewPositionHandler = {
+	viewTypes: ["canvas"],
+
+	capture(view) {
+		const canvas = getCanvas(view);
+		if (!canvas) return null;
+		return { x: canvas.x, y: canvas.y, zoom: canvas.zoom };
+	},
+
+	apply(view, data) {
+		const canvas = getCanvas(view);
+		if (!canvas) return;
+		const { x, y, zoom } = data;
+		if (typeof x !== "number" || typeof y !== "number" || typeof zoom !== "number") return;
+
+		if (canvas.setViewport) {
+			canvas.setViewport(x, y, zoom);
+		} else {
+			canvas.tx = x;
+			canvas.ty = y;
+			canvas.tZoom = zoom;
+			canvas.markViewportChanged?.();
+		}
+	},
+
+	isReady(view) {
+		return getCanvas(view) !== null;
+	},
+};
+
+/**
+ * Audio and video views: playback time.
+ */
+const mediaHandler: ViewPositionHandler = {
+	viewTypes: ["audio", "video"],
+
+	capture(view) {
+		const media = view.contentEl.querySelector<HTMLMediaElement>("audio, video");
+		if (!media) return null;
+		const data: ViewPositionData = { time: media.currentTime };
+		if (isFinite(media.duration)) data.duration = media.duration;
+		return data;
+	},
+
+	apply(view, data) {
+		const media = view.contentEl.querySelector<HTMLMediaElement>("audio, video");
+		if (!media || typeof data.time !== "number") return;
+		const time = data.time;
+
+		// Seeking before metadata has loaded is ignored by the browser
+		if (media.readyState >= HTMLMediaElement.HAVE_METADATA) {
+			media.currentTime = time;
+		} else {
+			media.addEventListener("loadedmetadata", () => { media.currentTime = time; }, { once: true });
+		}
+	},
+};
+
+/**
+ * Generic fallback for views that just scroll (images, bases, etc.).
+ */
+const scrollHandler: ViewPositionHandler = {
+	viewTypes: ["image", "bases"],
+
+	capture(view) {
+		const scroller = findScroller(view);
+		if (!scroller) return null;
+		return { scrollTop: scroller.scrollTop, scrollLeft: scroller.scrollLeft };
+	},
+
+	apply(view, data) {
+		const scroller = findScroller(view);
+		if (!scroller) return;
+		if (typeof data.scrollTop === "number") scroller.scrollTop = data.scrollTop;
+		if (typeof data.scrollLeft === "number") scroller.scrollLeft = data.scrollLeft;
+	},
+};
+
+/**
+ * Handlers registered by default.
+ */
+export const BUILTIN_HANDLERS: ViewPositionHandler[] = [
+	pdfHandler,
+	canvasHandler,
+	mediaHandler,
+	scrollHandler,
+];
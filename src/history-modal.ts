@@ -0,0 +1,76 @@
+import { App, MarkdownView, SuggestModal, WorkspaceLeaf, moment } from "obsidian";
+import { SavedPosition } from "./types";
+import { PositionTracker } from "./tracker";
+import { positionLine } from "./store";
+import { resolveAnchor } from "./anchor";
+
+interface HistoryItem {
+	index: number;
+	position: SavedPosition;
+	line: number | undefined;
+	preview: string;
+}
+
+/**
+ * Suggester listing a note's position history (newest first) with a
+ * preview of the line at each position.
+ */
+export class HistoryModal extends SuggestModal<HistoryItem> {
+	private items: HistoryItem[];
+
+	constructor(app: App, private tracker: PositionTracker, private leaf: WorkspaceLeaf) {
+		super(app);
+		this.setPlaceholder("Jump to a recent position…");
+		this.items = this.buildItems();
+	}
+
+	getSuggestions(query: string): HistoryItem[] {
+		const q = query.toLowerCase();
+		return this.items.filter((item) => item.preview.toLowerCase().includes(q));
+	}
+
+	renderSuggestion(item: HistoryItem, el: HTMLElement): void {
+		el.createDiv({ text: item.preview || "(empty line)" });
+		const line = item.line !== undefined ? `Line ${item.line + 1} · ` : "";
+		el.createEl("small", { text: line + moment(item.position.timestamp).fromNow() });
+	}
+
+	onChooseSuggestion(item: HistoryItem): void {
+		this.tracker.goToHistory(this.leaf, item.index);
+	}
+
+	/**
+	 * Build the list of history entries, resolving each anchor against the
+	 * current note contents so previews match what the note says now.
+	 */
+	private buildItems(): HistoryItem[] {
+		const view = this.leaf.view;
+		const content = view.getViewType() === "markdown"
+			? (view as MarkdownView).getViewData()
+			: "";
+		const lines = content.split("\n");
+
+		return this.tracker.getHistory(this.leaf)
+			.map((position, index) => {
+				let line = positionLine(position);
+				if (position.anchor && content) {
+					line = resolveAnchor(content, position.anchor) ?? line;
+				}
+				const preview = line !== undefined ? this.previewAt(lines, line) : "";
+				return { index, position, line, preview };
+			})
+			.reverse();
+	}
+
+	/**
+	 * First non-empty line at or after `line`, trimmed for display.
+	 */
+	private previewAt(lines: string[], line: number): string {
+		for (let i = line; i < lines.length && i < line + 5; i++) {
+			const text = lines[i].trim();
+			if (text) return text.length > 120 ? text.substring(0, 120) + "…" : text;
+		}
+		return "";
+	}
+}
+
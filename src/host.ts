@@ -0,0 +1,119 @@
+import { NavigationSource, RestoreBehaviour, SavedPosition } from "./types";
+
+/**
+ * The interfaces between the position engine (engine.ts) and the app it
+ * runs in. The plugin implements them over Obsidian (tracker.ts and
+ * backends.ts); fake-host.ts implements them in memory, so the engine's
+ * decisions can be exercised without a running Obsidian.
+ */
+
+/**
+ * Time and timers.
+ */
+export interface Clock {
+	now(): number;
+	setTimeout(callback: () => void, ms: number): number;
+	clearTimeout(id: number): void;
+}
+
+/**
+ * The real clock, using the main window's timers.
+ */
+export const systemClock: Clock = {
+	now: () => Date.now(),
+	setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+	clearTimeout: (id) => window.clearTimeout(id),
+};
+
+/**
+ * Where PositionStore persists positions.
+ *
+ * Backends throw on failure; PositionStore catches and logs.
+ */
+export interface StorageBackend {
+	/** Load all stored positions */
+	load(): Promise<Record<string, SavedPosition>>;
+	/**
+	 * Persist positions. `changed` lists keys set or removed since the last
+	 * save; backends that rewrite everything can ignore it.
+	 */
+	save(positions: Record<string, SavedPosition>, changed: Set<string>): Promise<void>;
+	/** Delete copies of earlier saves, such as backups and set-aside unreadable files, if the backend keeps any */
+	discardBackups?(): Promise<void>;
+	/**
+	 * Positions that couldn't be matched to a file on load, matched now
+	 * that the vault's files are all known. Call once the layout is ready.
+	 */
+	resolvePending?(): Promise<Record<string, SavedPosition>>;
+}
+
+/**
+ * A pane as the engine sees it: the file it shows, and how to capture and
+ * apply its position. An adapter stays with its pane while the pane opens
+ * other files.
+ */
+export interface ViewAdapter {
+	/** Persistent id of the pane */
+	readonly leafId: string;
+	/** Path of the file shown, or null if the pane shows no file */
+	readonly path: string | null;
+	/** Whether positions can be tracked for what the pane shows */
+	isTrackable(): boolean;
+	/** How the restore rules say the shown note should be opened */
+	getBehaviour(): RestoreBehaviour;
+	/** Capture the current position, or null if there's none to capture */
+	capture(): SavedPosition | null;
+	/** Reading progress (0-1) of a freshly captured position, if known */
+	measureProgress(position: SavedPosition): number | null;
+	/** Whether a freshly captured position is within the note's first screen */
+	isWithinFirstScreen(position: SavedPosition): boolean;
+	/**
+	 * Move to a position, replacing any move still in progress. Resolves
+	 * to whether the position was reached.
+	 */
+	restore(position: SavedPosition, restoreCursor: boolean): Promise<boolean>;
+	/** Move to the top or the end of the note, or return null if the view can't */
+	restoreEdge(edge: "top" | "bottom"): Promise<boolean> | null;
+}
+
+/**
+ * The navigation that will cause the next file-open. `expires` is Infinity
+ * while the navigation call that set it is still running.
+ */
+export interface PendingNavigation {
+	source: NavigationSource;
+	expires: number;
+}
+
+/**
+ * Workspace events the host reports to the engine, in the order Obsidian
+ * fires them.
+ */
+export interface WorkspaceListener {
+	/** A navigation from `source` is running and will open a file */
+	startNavigation(source: NavigationSource): PendingNavigation | null;
+	/** The navigation returned by `startNavigation` has finished */
+	endNavigation(pending: PendingNavigation | null): void;
+	/** A navigation from `source` happened and its file-open will follow shortly */
+	noteNavigation(source: NavigationSource): void;
+	/** The initial layout is ready; `views` are the panes open at startup */
+	onLayoutReady(views: ViewAdapter[]): void;
+	/** A pane (or none) became active */
+	onLeafActivated(view: ViewAdapter | null): void;
+	/** A file was opened in `view`; `flashing` if a link target is highlighted */
+	onFileOpen(view: ViewAdapter | null, flashing: boolean): void;
+	/** The active pane scrolled, or its position may have changed */
+	onScroll(view: ViewAdapter | null): void;
+	/** A markdown pane switched between editing and reading mode */
+	onModeChange(view: ViewAdapter): void;
+}
+
+/**
+ * Notifications from the engine to the host.
+ */
+export interface EngineEvents {
+	/** A position was saved for the file shown in `view` */
+	saved(view: ViewAdapter, position: SavedPosition): void;
+	/** A saved position was restored in `view` */
+	restored(view: ViewAdapter, position: SavedPosition): void;
+}
@@ -0,0 +1,105 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TFile, moment } from "obsidian";
+import { PositionStore } from "./store";
+import { ImportMode, PositionsExport, parseExport, parseRemaps, remapKey } from "./transfer";
+import { SavedPosition } from "./types";
+
+/**
+ * Pick a JSON file from the vault to import positions from.
+ */
+export class ImportFileModal extends FuzzySuggestModal<TFile> {
+	constructor(app: App, private store: PositionStore) {
+		super(app);
+		this.setPlaceholder("Choose a positions export to import…");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter((file) => file.extension === "json");
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.app.vault.read(file)
+			.then((text) => {
+				new ImportOptionsModal(this.app, this.store, parseExport(text)).open();
+			})
+			.catch((e) => {
+				new Notice(`Can't import ${file.name}: ${(e as Error).message}`);
+			});
+	}
+}
+
+/**
+ * Choose how an export is merged into the store, with optional path remapping.
+ */
+class ImportOptionsModal extends Modal {
+	private mode: ImportMode = "newest";
+	private remaps = "";
+
+	constructor(app: App, private store: PositionStore, private data: PositionsExport) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const count = Object.keys(this.data.positions).length;
+
+		this.titleEl.setText("Import positions");
+		contentEl.createEl("p", {
+			text: `${count} position${count === 1 ? "" : "s"} exported ` +
+				moment(this.data.exported).format("YYYY-MM-DD HH:mm") +
+				(this.data.folder ? ` from ${this.data.folder}` : "") + ".",
+		});
+
+		new Setting(contentEl)
+			.setName("Existing positions")
+			.setDesc("What to do when a note already has a saved position.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("newest", "Keep the newest")
+					.addOption("overwrite", "Overwrite with imported")
+					.addOption("skip", "Keep existing")
+					.setValue(this.mode)
+					.onChange((value) => { this.mode = value as ImportMode; })
+			);
+
+		new Setting(contentEl)
+			.setName("Remap paths")
+			.setDesc(
+				"For vaults that were restructured. One per line, e.g. \"Old folder => New folder\"."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Old folder => New folder")
+					.onChange((value) => { this.remaps = value; })
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => {
+						this.import();
+						this.close();
+					})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private import(): void {
+		const remaps = parseRemaps(this.remaps);
+		const positions: Record<string, SavedPosition> = {};
+		for (const [key, position] of Object.entries(this.data.positions)) {
+			positions[remapKey(key, remaps)] = position;
+		}
+
+		const imported = this.store.importPositions(positions, this.mode);
+		new Notice(`Imported ${imported} position${imported === 1 ? "" : "s"}.`);
+	}
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { makeKey, parseKey } from "./keys";
+
+describe("store keys", () => {
+	it("split off a leaf id or an old split index", () => {
+		expect(parseKey("a.md#0123456789abcdef")).toEqual({ path: "a.md", split: "0123456789abcdef" });
+		expect(parseKey("a.md#1-0")).toEqual({ path: "a.md", split: "1-0" });
+		expect(parseKey("a.md")).toEqual({ path: "a.md", split: "" });
+	});
+
+	it("keep a # that is part of the path", () => {
+		expect(parseKey("C# notes.md")).toEqual({ path: "C# notes.md", split: "" });
+		expect(parseKey("C#/intro.md")).toEqual({ path: "C#/intro.md", split: "" });
+		expect(parseKey("C# notes.md#0123456789abcdef")).toEqual({ path: "C# notes.md", split: "0123456789abcdef" });
+	});
+
+	it("round-trip through makeKey", () => {
+		const key = makeKey("C#/intro.md", "0123456789abcdef");
+		expect(parseKey(key)).toEqual({ path: "C#/intro.md", split: "0123456789abcdef" });
+	});
+});
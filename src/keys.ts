@@ -0,0 +1,64 @@
+/**
+ * Build a store key from a file path and an optional pane qualifier.
+ * Keys look like "folder/note.md" or "folder/note.md#<leaf id>".
+ * (Keys written by older versions used split index paths like "#1-0".)
+ */
+export function makeKey(path: string, split?: string): string {
+	return split ? `${path}#${split}` : path;
+}
+
+/**
+ * Pane qualifiers: a leaf id (16 hex digits), or a split index path written
+ * by older versions.
+ */
+const QUALIFIER = /^(?:[0-9a-f]{16}|\d+(?:-\d+)*)$/;
+
+/**
+ * Split a store key into its file path and pane qualifier.
+ * File and folder names may contain "#" ("C# notes.md"), so the text after
+ * the last "#" only counts as a qualifier if it looks like one.
+ */
+export function parseKey(key: string): { path: string; split: string } {
+	const idx = key.lastIndexOf("#");
+	if (idx === -1 || !QUALIFIER.test(key.substring(idx + 1))) return { path: key, split: "" };
+	return { path: key.substring(0, idx), split: key.substring(idx + 1) };
+}
+
+/**
+ * Whether a file path is the given path or lies inside it (for folders).
+ */
+export function isWithin(path: string, prefix: string): boolean {
+	return path === prefix || path.startsWith(prefix + "/");
+}
+
+/**
+ * Convert a folder glob to a regex matching file paths inside the folder.
+ * `*` matches within one path segment, `**` across segments. A plain folder
+ * path matches everything under it.
+ */
+export function folderGlobToRegExp(glob: string): RegExp {
+	const trimmed = glob.trim().replace(/^\/+|\/+$/g, "");
+	const source = trimmed
+		.split(/(\*\*|\*)/)
+		.map((part) => {
+			if (part === "**") return ".*";
+			if (part === "*") return "[^/]*";
+			return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}(/|$)`);
+}
+
+/**
+ * Whether a file path matches one of the excluded patterns: folder globs
+ * matched against the file's folder, or against the path itself to exclude
+ * single notes.
+ */
+export function isExcluded(path: string, patterns: string[]): boolean {
+	const folder = path.substring(0, Math.max(0, path.lastIndexOf("/")));
+	return patterns.some((pattern) => {
+		if (!pattern.trim()) return false;
+		const regex = folderGlobToRegExp(pattern);
+		return regex.test(folder) || regex.test(path);
+	});
+}
@@ -1,8 +1,21 @@
-import { Plugin } from "obsidian";
+import { Plugin, WorkspaceLeaf } from "obsidian";
 import { PluginSettings, DEFAULT_SETTINGS } from "./types";
 import { PositionStore } from "./store";
 import { PositionTracker } from "./tracker";
 import { SettingsTab } from "./settings";
+import { registerCommands } from "./commands";
+import { RecentPositionsView, VIEW_TYPE_RECENT } from "./recent-view";
+import { MarksView, VIEW_TYPE_MARKS } from "./marks-view";
+import { ProgressDisplay } from "./progress-display";
+import { DeviceSync } from "./sync";
+import { PositionApi, RememberScrollPositionApi } from "./api";
+import { cleanUpPositions, describeCleanup } from "./cleanup";
+import { EmbedScrollMemory } from "./embeds";
+import { PaneScrollMemory } from "./panes";
+import { createBackend } from "./backends";
+
+/** How often positions are checked for expiry (ms) */
+const EXPIRE_INTERVAL = 60 * 60 * 1000;
 
 /**
  * Remember Scroll Position — an Obsidian plugin that remembers your cursor
@@ -12,18 +25,66 @@ import { SettingsTab } from "./settings";
  */
 export default class RememberScrollPositionPlugin extends Plugin {
 	settings: PluginSettings;
+	/** Public API for other plugins, see api.ts */
+	api: RememberScrollPositionApi;
 	private store: PositionStore;
 	private tracker: PositionTracker;
+	private progressDisplay: ProgressDisplay;
+	private sync: DeviceSync;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
-		this.store = new PositionStore(this, this.settings);
+		this.store = new PositionStore(this.settings, createBackend(this, this.settings));
 		await this.store.load();
+		await this.store.purgeExcluded();
+		this.store.expire();
+		this.registerInterval(window.setInterval(() => this.store.expire(), EXPIRE_INTERVAL));
 
 		this.tracker = new PositionTracker(this, this.store, this.settings);
 		this.tracker.register();
 
+		// Drop positions of files deleted while the plugin wasn't running
+		this.app.workspace.onLayoutReady(async () => {
+			await this.store.loadPending();
+			const report = cleanUpPositions(this.app, this.store);
+			if (report.removed.length || report.relocated.length || report.stalePanes) {
+				console.info(`Remember Scroll Position: ${describeCleanup(report)}`, report);
+			}
+		});
+
+		new EmbedScrollMemory(this, this.settings).register();
+		new PaneScrollMemory(this, this.settings, this.tracker).register();
+
+		this.sync = new DeviceSync(this, this.store, this.tracker, this.settings);
+		this.sync.register();
+
+		this.api = new PositionApi(this.app, this.store, this.tracker);
+
+		this.progressDisplay = new ProgressDisplay(this, this.store, this.tracker, this.settings);
+		this.progressDisplay.register();
+
+		registerCommands(this, this.store, this.tracker);
+
+		this.registerView(
+			VIEW_TYPE_RECENT,
+			(leaf) => new RecentPositionsView(leaf, this.store, this.tracker)
+		);
+		this.registerView(
+			VIEW_TYPE_MARKS,
+			(leaf) => new MarksView(leaf, this.store, this.tracker)
+		);
+		this.addCommand({
+			id: "open-recent-view",
+			name: "Open recently read notes",
+			callback: () => { void this.activateView(VIEW_TYPE_RECENT); },
+		});
+		this.addCommand({
+			id: "open-marks-view",
+			name: "Open marks",
+			callback: () => { void this.activateView(VIEW_TYPE_MARKS); },
+		});
+
 		this.addSettingTab(new SettingsTab(this.app, this));
 	}
 
@@ -31,6 +92,37 @@ export default class RememberScrollPositionPlugin extends Plugin {
 		void this.store?.flush();
 	}
 
+	/**
+	 * Apply the storage settings, moving all positions to the selected backend.
+	 */
+	async switchStorageBackend(): Promise<void> {
+		await this.store.switchBackend(createBackend(this, this.settings));
+		// The backup was written before the switch and may hold plain paths
+		if (this.settings.hashPaths) await this.store.scrub();
+		await this.sync.pull();
+	}
+
+	/**
+	 * Forget the positions of notes in excluded folders, including backups.
+	 * Returns the number of positions forgotten.
+	 */
+	async applyExclusions(): Promise<number> {
+		return this.store.purgeExcluded();
+	}
+
+	/**
+	 * Reveal one of the plugin's sidebar views, creating it if needed.
+	 */
+	async activateView(viewType: string): Promise<void> {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(viewType)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			await leaf?.setViewState({ type: viewType, active: true });
+		}
+		if (leaf) await workspace.revealLeaf(leaf);
+	}
+
 	async loadSettings(): Promise<void> {
 		this.settings = Object.assign(
 			{},
@@ -38,10 +130,19 @@ export default class RememberScrollPositionPlugin extends Plugin {
 			{ filePath: this.defaultFilePath() },
 			await this.loadData(),
 		);
+		// Don't share default arrays/objects between settings objects, and
+		// fill in navigation sources added after the settings were saved
+		this.settings.rules = [...this.settings.rules];
+		this.settings.excludedFolders = [...this.settings.excludedFolders];
+		this.settings.navigationPolicies = {
+			...DEFAULT_SETTINGS.navigationPolicies,
+			...this.settings.navigationPolicies,
+		};
 	}
 
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
+		this.progressDisplay?.refresh();
 	}
 
 	private defaultFilePath(): string {
@@ -0,0 +1,111 @@
+import { App, FuzzyMatch, FuzzySuggestModal, MarkdownView, Modal, Setting, WorkspaceLeaf } from "obsidian";
+import { NamedMark } from "./types";
+import { positionLine } from "./store";
+import { getPositionLine } from "./progress";
+
+/**
+ * Ask for the name of a new mark.
+ */
+export class MarkNameModal extends Modal {
+	private name = "";
+
+	constructor(app: App, private existing: string[], private onSubmit: (name: string) => void) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText("Add mark");
+
+		const submit = () => {
+			const name = this.name.trim();
+			if (!name) return;
+			this.close();
+			this.onSubmit(name);
+		};
+
+		new Setting(contentEl)
+			.setName("Name")
+			.setDesc(this.existing.length
+				? `A mark with an existing name is moved here. Marks in this note: ${this.existing.join(", ")}.`
+				: "")
+			.addText((text) => {
+				text
+					.setPlaceholder("e.g. definitions")
+					.onChange((value) => { this.name = value; });
+				text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+					if (e.key === "Enter") {
+						e.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add")
+					.setCta()
+					.onClick(submit)
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Fuzzy suggester over a note's marks, with a preview of the line at each.
+ */
+export class MarkSuggestModal extends FuzzySuggestModal<NamedMark> {
+	private content: string;
+	private lines: string[];
+
+	constructor(
+		app: App,
+		leaf: WorkspaceLeaf,
+		private marks: NamedMark[],
+		placeholder: string,
+		private onChoose: (mark: NamedMark) => void
+	) {
+		super(app);
+		this.setPlaceholder(placeholder);
+		this.content = leaf.view.getViewType() === "markdown"
+			? (leaf.view as MarkdownView).getViewData()
+			: "";
+		this.lines = this.content.split("\n");
+	}
+
+	getItems(): NamedMark[] {
+		return this.marks;
+	}
+
+	getItemText(mark: NamedMark): string {
+		return mark.name;
+	}
+
+	renderSuggestion(match: FuzzyMatch<NamedMark>, el: HTMLElement): void {
+		super.renderSuggestion(match, el);
+		const line = this.getLine(match.item);
+		if (line !== undefined) {
+			const text = this.lines[line]?.trim() ?? "";
+			el.createEl("small", {
+				cls: "remember-scroll-position-mark-preview",
+				text: `Line ${line + 1}` + (text ? ` · ${text.length > 100 ? text.substring(0, 100) + "…" : text}` : ""),
+			});
+		}
+	}
+
+	onChooseItem(mark: NamedMark): void {
+		this.onChoose(mark);
+	}
+
+	/**
+	 * Current line of a mark, following its anchor if the note was edited.
+	 */
+	private getLine(mark: NamedMark): number | undefined {
+		return this.content ? getPositionLine(mark, this.content) ?? undefined : positionLine(mark);
+	}
+}
@@ -0,0 +1,126 @@
+import { debounce, ItemView, Menu, TFile, WorkspaceLeaf } from "obsidian";
+import { NamedMark } from "./types";
+import { PositionStore } from "./store";
+import { parseKey } from "./keys";
+import { PositionTracker } from "./tracker";
+import { getPositionLine } from "./progress";
+
+export const VIEW_TYPE_MARKS = "remember-scroll-position-marks";
+
+interface MarkedNote {
+	file: TFile;
+	marks: NamedMark[];
+}
+
+/**
+ * Sidebar view listing the named marks of every note, grouped by note.
+ */
+export class MarksView extends ItemView {
+	private store: PositionStore;
+	private tracker: PositionTracker;
+
+	/** Incremented on each render so stale async renders can bail out */
+	private renderId = 0;
+
+	private refreshDebounced = debounce(() => { void this.render(); }, 500, true);
+
+	constructor(leaf: WorkspaceLeaf, store: PositionStore, tracker: PositionTracker) {
+		super(leaf);
+		this.store = store;
+		this.tracker = tracker;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_MARKS;
+	}
+
+	getDisplayText(): string {
+		return "Marks";
+	}
+
+	getIcon(): string {
+		return "bookmark";
+	}
+
+	async onOpen(): Promise<void> {
+		this.register(this.store.onChange(() => this.refreshDebounced()));
+		await this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.refreshDebounced.cancel();
+	}
+
+	/**
+	 * Notes with marks, sorted by path.
+	 */
+	private collectNotes(): MarkedNote[] {
+		const notes: MarkedNote[] = [];
+		for (const [key, position] of this.store.entries()) {
+			const { path, split } = parseKey(key);
+			if (split || !position.marks?.length) continue;
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) notes.push({ file, marks: position.marks });
+		}
+		return notes.sort((a, b) => a.file.path.localeCompare(b.file.path));
+	}
+
+	private async render(): Promise<void> {
+		const renderId = ++this.renderId;
+		const notes = this.collectNotes();
+
+		const contents = await Promise.all(
+			notes.map((note) => note.file.extension === "md"
+				? this.app.vault.cachedRead(note.file)
+				: Promise.resolve(undefined))
+		);
+		if (renderId !== this.renderId) return;
+
+		const container = this.contentEl;
+		container.empty();
+
+		if (notes.length === 0) {
+			container.createDiv({ cls: "pane-empty", text: "No marks yet. Use \"Add mark\" to mark a spot in a note." });
+			return;
+		}
+
+		notes.forEach((note, i) => this.renderNote(container, note, contents[i]));
+	}
+
+	private renderNote(container: HTMLElement, note: MarkedNote, content: string | undefined): void {
+		const noteEl = container.createDiv({ cls: "tree-item" });
+		noteEl.createDiv({ cls: "tree-item-self" })
+			.createDiv({ cls: "tree-item-inner", text: note.file.basename });
+		const childrenEl = noteEl.createDiv({ cls: "tree-item-children" });
+
+		const lines = content?.split("\n");
+		for (const mark of note.marks) {
+			const selfEl = childrenEl.createDiv({ cls: "tree-item" })
+				.createDiv({ cls: "tree-item-self is-clickable" });
+			const innerEl = selfEl.createDiv({ cls: "tree-item-inner" });
+			innerEl.createDiv({ text: mark.name });
+
+			const line = content !== undefined ? getPositionLine(mark, content) : null;
+			const snippet = line !== null ? lines?.[line]?.trim() : "";
+			if (line !== null) {
+				innerEl.createEl("small", {
+					text: `Line ${line + 1}` + (snippet ? ` · ${snippet.length > 80 ? snippet.substring(0, 80) + "…" : snippet}` : ""),
+				});
+			}
+
+			selfEl.addEventListener("click", () => {
+				void this.tracker.openMark(note.file, mark);
+			});
+			selfEl.addEventListener("contextmenu", (e: MouseEvent) => {
+				const menu = new Menu();
+				menu.addItem((item) =>
+					item
+						.setTitle("Remove mark")
+						.setIcon("trash")
+						.onClick(() => { this.store.deleteMark(note.file.path, mark.name); })
+				);
+				menu.showAtMouseEvent(e);
+			});
+		}
+	}
+}
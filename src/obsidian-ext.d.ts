@@ -1,10 +1,58 @@
 import "obsidian";
+import { FoldRange, SavedPosition } from "./types";
 
 declare module "obsidian" {
+	interface App {
+		appId: string;
+		internalPlugins: {
+			getPluginById(id: string): { enabled: boolean; instance: unknown } | null;
+		};
+	}
+
+	interface Vault {
+		/** Fires for any adapter-level change, including files in the config dir */
+		on(name: "raw", callback: (path: string) => unknown, ctx?: unknown): EventRef;
+	}
+
+	interface Workspace {
+		/** Fired by this plugin after a position is saved */
+		on(
+			name: "remember-scroll-position:saved",
+			callback: (file: TFile, position: SavedPosition, leaf: WorkspaceLeaf) => unknown,
+			ctx?: unknown
+		): EventRef;
+		/** Fired by this plugin after a saved position is restored */
+		on(
+			name: "remember-scroll-position:restored",
+			callback: (file: TFile, position: SavedPosition, leaf: WorkspaceLeaf) => unknown,
+			ctx?: unknown
+		): EventRef;
+	}
+
+	interface MarkdownSubView {
+		/** Folds of the note, shared by editing and reading mode */
+		getFoldInfo?(): FoldInfo | null;
+		applyFoldInfo?(info: FoldInfo): void;
+	}
+
+	/** Folds as Obsidian's fold manager keeps them */
+	interface FoldInfo {
+		folds: FoldRange[];
+		/** Line count of the note the folds belong to */
+		lines: number;
+	}
+
 	interface WorkspaceLeaf {
 		id: string;
 		working: boolean;
 		parentSplit: WorkspaceSplit;
+		history?: LeafHistory;
+	}
+
+	/** Per-leaf back/forward history */
+	interface LeafHistory {
+		back(): unknown;
+		forward(): unknown;
 	}
 
 	interface WorkspaceSplit {
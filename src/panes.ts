@@ -0,0 +1,251 @@
+import { debounce, Plugin, TAbstractFile, TFolder, WorkspaceLeaf } from "obsidian";
+import { PluginSettings } from "./types";
+import { PositionTracker } from "./tracker";
+import { waitForQuiet } from "./restore";
+import { registerDocuments } from "./windows";
+
+/**
+ * Sidebar views whose scroll is remembered, with the view state field that
+ * tells what they show (null for views that always show the same thing).
+ */
+const CONTEXT_FIELDS: Record<string, string | null> = {
+	"file-explorer": null,
+	search: "query",
+	backlink: "file",
+	outline: "file",
+};
+
+/** Scrolling element of each view, tried before the view's content element */
+const SCROLLERS: Record<string, string> = {
+	"file-explorer": ".nav-files-container",
+	search: ".search-result-container",
+	backlink: ".backlink-pane",
+};
+
+/** Maximum number of remembered pane positions */
+const MAX_ENTRIES = 200;
+
+/**
+ * What is remembered for a pane in one context.
+ */
+interface PaneState {
+	scrollTop: number;
+	/** Expanded folders, for the file explorer */
+	expanded?: string[];
+}
+
+/**
+ * A file explorer tree item (internal API).
+ */
+interface ExplorerItem {
+	file: TAbstractFile;
+	collapsed?: boolean;
+	setCollapsed?(collapsed: boolean): unknown;
+}
+
+/**
+ * Remembers the scroll position of sidebar panes — the file explorer,
+ * search, backlinks and outline — for the session, keyed by view type and
+ * what the pane shows (the search query, or the note whose backlinks or
+ * outline are shown). For the file explorer the expanded folders are
+ * remembered too.
+ *
+ * Scrolling is picked up from the tracker's scroll listeners. The saved
+ * state is restored when a pane is opened again or goes back to a context
+ * it showed before.
+ */
+export class PaneScrollMemory {
+	private plugin: Plugin;
+	private settings: PluginSettings;
+	private tracker: PositionTracker;
+
+	/** Remembered state by key (view type and context), least recently used first */
+	private positions = new Map<string, PaneState>();
+
+	/** Context each pane showed when last checked */
+	private contexts = new WeakMap<WorkspaceLeaf, string>();
+
+	/** Panes being restored, whose scroll events aren't the user's */
+	private restoring = new WeakSet<WorkspaceLeaf>();
+
+	private captureDebounced = debounce((target: HTMLElement) => this.handleChange(target), 200, false);
+	private checkDebounced = debounce(() => this.checkPanes(), 100, false);
+	private queryDebounced = debounce(() => this.checkPanes(), 500, false);
+
+	constructor(plugin: Plugin, settings: PluginSettings, tracker: PositionTracker) {
+		this.plugin = plugin;
+		this.settings = settings;
+		this.tracker = tracker;
+	}
+
+	/**
+	 * Register the scroll listener and workspace events. Call once during plugin load.
+	 */
+	register(): void {
+		const workspace = this.plugin.app.workspace;
+
+		// instanceof fails for elements of popout windows
+		this.tracker.addScrollListener((e: Event) => {
+			const target = e.target as Node | null;
+			if (this.settings.rememberPanes && target?.instanceOf(HTMLElement)) {
+				this.captureDebounced(target);
+			}
+		});
+
+		// Folders expanded or collapsed in the explorer, and search queries typed
+		registerDocuments(this.plugin, (doc) => {
+			this.plugin.registerDomEvent(doc, "click", (e: MouseEvent) => {
+				const target = e.target as Node | null;
+				if (this.settings.rememberPanes && target?.instanceOf(HTMLElement)) {
+					this.captureDebounced(target);
+				}
+			}, true);
+			this.plugin.registerDomEvent(doc, "input", (e: Event) => {
+				const target = e.target as Node | null;
+				if (this.settings.rememberPanes && target?.instanceOf(HTMLElement) &&
+					target.closest(".workspace-leaf-content[data-type=\"search\"]")) {
+					this.queryDebounced();
+				}
+			}, true);
+		});
+
+		// Panes opened and contexts changed by opening another note
+		this.plugin.registerEvent(workspace.on("layout-change", () => this.checkDebounced()));
+		this.plugin.registerEvent(workspace.on("file-open", () => this.checkDebounced()));
+		workspace.onLayoutReady(() => this.checkDebounced());
+	}
+
+	/**
+	 * Remember the state of the pane an event happened in.
+	 */
+	private handleChange(target: HTMLElement): void {
+		let pane: WorkspaceLeaf | null = null;
+		this.plugin.app.workspace.iterateAllLeaves((leaf: WorkspaceLeaf) => {
+			if (!pane && leaf.view.containerEl.contains(target)) pane = leaf;
+		});
+		const leaf = pane as WorkspaceLeaf | null;
+		if (!leaf || this.restoring.has(leaf)) return;
+
+		// A pane whose context just changed still shows the old context's scroll
+		const context = this.getContext(leaf);
+		if (context === null || this.contexts.get(leaf) !== context) return;
+
+		const scroller = this.findScroller(leaf);
+		const state: PaneState = { scrollTop: scroller?.scrollTop ?? 0 };
+		const expanded = this.getExpanded(leaf);
+		if (expanded) state.expanded = expanded;
+
+		const key = this.getKey(leaf, context);
+		this.positions.delete(key);
+		this.positions.set(key, state);
+		if (this.positions.size > MAX_ENTRIES) {
+			const oldest = this.positions.keys().next().value;
+			if (oldest !== undefined) this.positions.delete(oldest);
+		}
+	}
+
+	/**
+	 * Restore panes that were opened or show another context since the last check.
+	 */
+	private checkPanes(): void {
+		if (!this.settings.rememberPanes) return;
+
+		this.plugin.app.workspace.iterateAllLeaves((leaf: WorkspaceLeaf) => {
+			const context = this.getContext(leaf);
+			if (context === null || this.contexts.get(leaf) === context) return;
+			this.contexts.set(leaf, context);
+
+			const state = this.positions.get(this.getKey(leaf, context));
+			if (state) void this.restore(leaf, context, state);
+		});
+	}
+
+	/**
+	 * Apply a remembered state once the pane has rendered its content.
+	 */
+	private async restore(leaf: WorkspaceLeaf, context: string, state: PaneState): Promise<void> {
+		const el = leaf.view.containerEl;
+		this.restoring.add(leaf);
+		try {
+			await waitForQuiet(el);
+			if (this.contexts.get(leaf) !== context) return;
+
+			if (state.expanded && this.setExpanded(leaf, state.expanded)) {
+				await waitForQuiet(el);
+			}
+			const scroller = this.findScroller(leaf);
+			if (scroller) scroller.scrollTop = state.scrollTop;
+		} finally {
+			// Let the scroll event of the restore pass first
+			el.win.requestAnimationFrame(() => this.restoring.delete(leaf));
+		}
+	}
+
+	/**
+	 * What a pane shows, or null if its scroll isn't remembered.
+	 */
+	private getContext(leaf: WorkspaceLeaf): string | null {
+		const viewType = leaf.view.getViewType();
+		if (!(viewType in CONTEXT_FIELDS)) return null;
+
+		const field = CONTEXT_FIELDS[viewType];
+		if (!field) return "";
+		const value = leaf.view.getState()[field];
+		return typeof value === "string" ? value : "";
+	}
+
+	private getKey(leaf: WorkspaceLeaf, context: string): string {
+		return `${leaf.view.getViewType()}:${context}`;
+	}
+
+	/**
+	 * Find the element that scrolls in a pane.
+	 */
+	private findScroller(leaf: WorkspaceLeaf): HTMLElement | null {
+		const containerEl = leaf.view.containerEl;
+		const selectors = [SCROLLERS[leaf.view.getViewType()], ".view-content"];
+		for (const selector of selectors) {
+			const el = selector ? containerEl.querySelector<HTMLElement>(selector) : null;
+			if (el && el.scrollHeight > el.clientHeight) return el;
+		}
+		return null;
+	}
+
+	/**
+	 * Paths of the folders expanded in a file explorer pane, or undefined
+	 * for other panes.
+	 */
+	private getExpanded(leaf: WorkspaceLeaf): string[] | undefined {
+		const items = this.getExplorerItems(leaf);
+		if (!items) return undefined;
+		return Object.entries(items)
+			.filter(([, item]) => item.file instanceof TFolder && item.collapsed === false)
+			.map(([path]) => path);
+	}
+
+	/**
+	 * Expand exactly the given folders in a file explorer pane. Returns
+	 * whether any folder changed.
+	 */
+	private setExpanded(leaf: WorkspaceLeaf, expanded: string[]): boolean {
+		const items = this.getExplorerItems(leaf);
+		if (!items) return false;
+
+		const open = new Set(expanded);
+		let changed = false;
+		for (const [path, item] of Object.entries(items)) {
+			if (!(item.file instanceof TFolder) || !item.setCollapsed) continue;
+			const collapsed = !open.has(path);
+			if (item.collapsed !== collapsed) {
+				item.setCollapsed(collapsed);
+				changed = true;
+			}
+		}
+		return changed;
+	}
+
+	private getExplorerItems(leaf: WorkspaceLeaf): Record<string, ExplorerItem> | null {
+		if (leaf.view.getViewType() !== "file-explorer") return null;
+		return (leaf.view as unknown as { fileItems?: Record<string, ExplorerItem> }).fileItems ?? null;
+	}
+}
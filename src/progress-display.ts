@@ -0,0 +1,155 @@
+import { debounce, MarkdownView, Plugin, View } from "obsidian";
+import { PluginSettings } from "./types";
+import { PositionStore } from "./store";
+import { parseKey } from "./keys";
+import { PositionTracker } from "./tracker";
+import { getFurthestProgress, getPositionLine, getProgress } from "./progress";
+
+/** Internal shape of the file explorer view */
+interface FileExplorerView extends View {
+	fileItems?: Record<string, { selfEl: HTMLElement } | undefined>;
+}
+
+const BADGE_CLASS = "remember-scroll-position-badge";
+const BAR_CLASS = "remember-scroll-position-bar";
+const HAS_BAR_CLASS = "remember-scroll-position-has-bar";
+
+/**
+ * Shows reading progress in the status bar (active note) and, optionally,
+ * as badges or bars next to files in the file explorer.
+ */
+export class ProgressDisplay {
+	private plugin: Plugin;
+	private store: PositionStore;
+	private tracker: PositionTracker;
+	private settings: PluginSettings;
+	private statusBarEl: HTMLElement;
+
+	/** Explorer mode last rendered, so "off" clears the items only once */
+	private explorerMode: PluginSettings["explorerProgress"] | null = null;
+
+	private refreshDebounced = debounce(() => this.refresh(), 300, false);
+
+	constructor(plugin: Plugin, store: PositionStore, tracker: PositionTracker, settings: PluginSettings) {
+		this.plugin = plugin;
+		this.store = store;
+		this.tracker = tracker;
+		this.settings = settings;
+	}
+
+	/**
+	 * Create the status bar item and register refresh triggers. Call once during plugin load.
+	 */
+	register(): void {
+		const { workspace } = this.plugin.app;
+		this.statusBarEl = this.plugin.addStatusBarItem();
+
+		this.plugin.register(this.store.onChange(() => this.refreshDebounced()));
+		this.plugin.registerEvent(workspace.on("active-leaf-change", () => this.refreshDebounced()));
+		// The explorer re-creates its items on layout changes
+		this.plugin.registerEvent(workspace.on("layout-change", () => this.refreshDebounced()));
+		workspace.onLayoutReady(() => this.refresh());
+
+		this.plugin.register(() => {
+			this.refreshDebounced.cancel();
+			this.forEachExplorerItem((selfEl) => this.clearExplorerItem(selfEl));
+		});
+	}
+
+	/**
+	 * Re-render everything now (e.g. after a settings change).
+	 */
+	refresh(): void {
+		this.updateStatusBar();
+		this.updateExplorer();
+	}
+
+	private updateStatusBar(): void {
+		const el = this.statusBarEl;
+		const leaf = this.plugin.app.workspace.getMostRecentLeaf();
+		const position = leaf && this.settings.showStatusBar
+			? this.tracker.getLeafPosition(leaf)
+			: undefined;
+		const progress = position ? getProgress(position) : null;
+
+		if (!leaf || !position || progress === null) {
+			el.empty();
+			el.hide();
+			return;
+		}
+
+		let text = `${Math.round(progress * 100)}%`;
+		if (leaf.view.getViewType() === "markdown") {
+			const content = (leaf.view as MarkdownView).getViewData();
+			const line = getPositionLine(position, content);
+			if (line !== null) {
+				text += ` · line ${line + 1}/${content.split("\n").length}`;
+			}
+		}
+		el.setText(text);
+		el.show();
+	}
+
+	private updateExplorer(): void {
+		const mode = this.settings.explorerProgress;
+		const previous = this.explorerMode;
+		this.explorerMode = mode;
+		if (mode === "off") {
+			if (previous !== "off") this.forEachExplorerItem((selfEl) => this.clearExplorerItem(selfEl));
+			return;
+		}
+
+		// Furthest progress per file over all its panes; finished if any pane finished it
+		const byPath = new Map<string, { progress: number; finished: boolean }>();
+		for (const [key, position] of this.store.entries()) {
+			const progress = getFurthestProgress(position);
+			if (progress === null) continue;
+			const { path } = parseKey(key);
+			const existing = byPath.get(path);
+			byPath.set(path, {
+				progress: Math.max(progress, existing?.progress ?? 0),
+				finished: !!position.finished || !!existing?.finished,
+			});
+		}
+
+		this.forEachExplorerItem((selfEl, path) => {
+			const read = byPath.get(path);
+			if (!read) {
+				this.clearExplorerItem(selfEl);
+				return;
+			}
+			const { progress } = read;
+
+			if (mode === "badge") {
+				selfEl.querySelector(`.${BAR_CLASS}`)?.remove();
+				selfEl.removeClass(HAS_BAR_CLASS);
+				const badge = selfEl.querySelector<HTMLElement>(`.${BADGE_CLASS}`) ??
+					selfEl.createDiv({ cls: BADGE_CLASS });
+				badge.setText(read.finished ? "✓" : `${Math.round(progress * 100)}%`);
+			} else {
+				selfEl.querySelector(`.${BADGE_CLASS}`)?.remove();
+				selfEl.addClass(HAS_BAR_CLASS);
+				const bar = selfEl.querySelector<HTMLElement>(`.${BAR_CLASS}`) ??
+					selfEl.createDiv({ cls: BAR_CLASS });
+				bar.style.setProperty("--remember-scroll-position-progress", String(progress));
+			}
+		});
+	}
+
+	private clearExplorerItem(selfEl: HTMLElement): void {
+		selfEl.querySelector(`.${BADGE_CLASS}`)?.remove();
+		selfEl.querySelector(`.${BAR_CLASS}`)?.remove();
+		selfEl.removeClass(HAS_BAR_CLASS);
+	}
+
+	private forEachExplorerItem(callback: (selfEl: HTMLElement, path: string) => void): void {
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType("file-explorer")) {
+			const items = (leaf.view as FileExplorerView).fileItems;
+			if (!items) continue;
+			for (const path in items) {
+				const item = items[path];
+				if (item?.selfEl) callback(item.selfEl, path);
+			}
+		}
+	}
+}
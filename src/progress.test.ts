@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { getFurthestProgress, getProgress } from "./progress";
+
+describe("furthest progress", () => {
+	it("is the furthest point reached, not the current one", () => {
+		const position = { timestamp: 0, scroll: 10, progress: 0.1, maxProgress: 0.8 };
+		expect(getProgress(position)).toBe(0.1);
+		expect(getFurthestProgress(position)).toBe(0.8);
+	});
+
+	it("falls back to the current progress", () => {
+		expect(getFurthestProgress({ timestamp: 0, scroll: 10, progress: 0.3 })).toBe(0.3);
+		expect(getFurthestProgress({ timestamp: 0, scroll: 10 })).toBeNull();
+	});
+});
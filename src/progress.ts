@@ -0,0 +1,69 @@
+import { SavedPosition } from "./types";
+import { resolveAnchor } from "./anchor";
+
+/** Progress at or above which a note counts as finished */
+export const FINISHED_THRESHOLD = 0.98;
+
+/**
+ * How far through a note a saved position is, from 0 to 1.
+ *
+ * Uses the progress recorded when the position was saved if there is one.
+ * Otherwise markdown positions use the top visible line (or the cursor line)
+ * against the note's line count, so `content` is required for them, and
+ * PDF and media positions use their own page/duration totals.
+ * Returns null if progress can't be worked out.
+ */
+export function getProgress(position: SavedPosition, content?: string): number | null {
+	if (position.progress !== undefined) return position.progress;
+
+	const data = position.view?.data;
+	if (data) {
+		if (typeof data.page === "number" && typeof data.pages === "number" && data.pages > 0) {
+			return clamp(data.pages === 1 ? 1 : (data.page - 1) / (data.pages - 1));
+		}
+		if (typeof data.time === "number" && typeof data.duration === "number" && data.duration > 0) {
+			return clamp(data.time / data.duration);
+		}
+		return null;
+	}
+
+	if (content === undefined) return null;
+	const line = position.anchor
+		? resolveAnchor(content, position.anchor) ?? position.anchor.line
+		: getPositionLine(position, content);
+	if (line === null) return null;
+
+	const lineCount = content.split("\n").length;
+	return lineCount <= 1 ? 1 : clamp(line / (lineCount - 1));
+}
+
+/**
+ * How far through a note the reader has got, from 0 to 1: the furthest
+ * progress recorded with the position, or its own progress if further.
+ * Returns null if neither is known.
+ */
+export function getFurthestProgress(position: SavedPosition, content?: string): number | null {
+	const progress = getProgress(position, content);
+	if (position.maxProgress === undefined) return progress;
+	return Math.max(position.maxProgress, progress ?? 0);
+}
+
+/**
+ * Current line of a saved position in a note, following its content
+ * anchor if the note has been edited. Prefers the cursor line.
+ */
+export function getPositionLine(position: SavedPosition, content: string): number | null {
+	const anchorLine = position.anchor
+		? resolveAnchor(content, position.anchor) ?? position.anchor.line
+		: null;
+
+	if (position.cursor) {
+		const shift = position.anchor && anchorLine !== null ? anchorLine - position.anchor.line : 0;
+		return Math.max(0, position.cursor.to.line + shift);
+	}
+	return anchorLine;
+}
+
+function clamp(value: number): number {
+	return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,136 @@
+import { debounce, ItemView, TFile, WorkspaceLeaf } from "obsidian";
+import { SavedPosition } from "./types";
+import { PositionStore } from "./store";
+import { parseKey } from "./keys";
+import { PositionTracker } from "./tracker";
+import { getPositionLine, getProgress } from "./progress";
+
+export const VIEW_TYPE_RECENT = "remember-scroll-position-recent";
+
+/** Maximum number of notes listed */
+const MAX_ITEMS = 50;
+
+interface RecentItem {
+	file: TFile;
+	position: SavedPosition;
+}
+
+/**
+ * Sidebar view listing notes with saved positions, most recently read first.
+ */
+export class RecentPositionsView extends ItemView {
+	private store: PositionStore;
+	private tracker: PositionTracker;
+
+	/** Incremented on each render so stale async renders can bail out */
+	private renderId = 0;
+
+	private refreshDebounced = debounce(() => { void this.render(); }, 500, true);
+
+	constructor(leaf: WorkspaceLeaf, store: PositionStore, tracker: PositionTracker) {
+		super(leaf);
+		this.store = store;
+		this.tracker = tracker;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_RECENT;
+	}
+
+	getDisplayText(): string {
+		return "Recently read";
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen(): Promise<void> {
+		// Positions are saved when switching notes, so refresh on the same events
+		this.registerEvent(this.app.workspace.on("file-open", () => this.refreshDebounced()));
+		this.registerEvent(this.app.vault.on("rename", () => this.refreshDebounced()));
+		this.registerEvent(this.app.vault.on("delete", () => this.refreshDebounced()));
+		await this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.refreshDebounced.cancel();
+	}
+
+	/**
+	 * Newest position per file (across pane variants), newest file first.
+	 */
+	private collectItems(): RecentItem[] {
+		const newest = new Map<string, SavedPosition>();
+		for (const [key, position] of this.store.entries()) {
+			const { path } = parseKey(key);
+			const existing = newest.get(path);
+			if (!existing || position.timestamp > existing.timestamp) {
+				newest.set(path, position);
+			}
+		}
+
+		const items: RecentItem[] = [];
+		for (const [path, position] of newest) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) items.push({ file, position });
+		}
+		return items
+			.sort((a, b) => b.position.timestamp - a.position.timestamp)
+			.slice(0, MAX_ITEMS);
+	}
+
+	private async render(): Promise<void> {
+		const renderId = ++this.renderId;
+		const items = this.collectItems();
+
+		// Read contents up front so the list is replaced in one go
+		const contents = await Promise.all(
+			items.map((item) => item.file.extension === "md"
+				? this.app.vault.cachedRead(item.file)
+				: Promise.resolve(undefined))
+		);
+		if (renderId !== this.renderId) return;
+
+		const container = this.contentEl;
+		container.empty();
+
+		if (items.length === 0) {
+			container.createDiv({ cls: "pane-empty", text: "No saved positions yet." });
+			return;
+		}
+
+		items.forEach((item, i) => this.renderItem(container, item, contents[i]));
+	}
+
+	private renderItem(container: HTMLElement, item: RecentItem, content: string | undefined): void {
+		const { file, position } = item;
+		const itemEl = container.createDiv({ cls: "tree-item" });
+		const selfEl = itemEl.createDiv({ cls: "tree-item-self is-clickable" });
+		const innerEl = selfEl.createDiv({ cls: "tree-item-inner" });
+
+		innerEl.createDiv({ text: file.basename });
+
+		const progress = getProgress(position, content);
+		const meta: string[] = [];
+		if (file.parent && !file.parent.isRoot()) meta.push(file.parent.path);
+		if (progress !== null) meta.push(`${Math.round(progress * 100)}%`);
+		if (meta.length) {
+			innerEl.createEl("small", { text: meta.join(" · ") });
+		}
+
+		if (content !== undefined) {
+			const line = getPositionLine(position, content);
+			const snippet = line !== null ? content.split("\n")[line]?.trim() : "";
+			if (snippet) {
+				innerEl.createDiv().createEl("small", {
+					text: snippet.length > 100 ? snippet.substring(0, 100) + "…" : snippet,
+				});
+			}
+		}
+
+		selfEl.addEventListener("click", () => {
+			void this.tracker.openFile(file, position);
+		});
+	}
+}
@@ -0,0 +1,145 @@
+import { WorkspaceLeaf } from "obsidian";
+
+/** How long the view's DOM must stay unchanged to count as rendered (ms) */
+const QUIET_PERIOD = 80;
+
+/** Longest to wait for a view to finish rendering before applying anyway (ms) */
+const MAX_RENDER_WAIT = 3000;
+
+/** Applies attempted before giving up on reaching the target */
+const MAX_ATTEMPTS = 4;
+
+/** User input in a leaf that stops its restore */
+const USER_INPUT_EVENTS = ["wheel", "keydown", "pointerdown"];
+
+/**
+ * How to move a leaf to a position, and how to tell that it got there.
+ */
+export interface RestoreStep {
+	/**
+	 * Move the view. `attempt` is 0 the first time and counts up on retries,
+	 * so later attempts can use a fallback mechanism.
+	 */
+	apply(attempt: number): void;
+	/** Whether the view is at the target (checked once rendering settles) */
+	isSettled(): boolean;
+	/** Whether the view has loaded enough to apply anything at all */
+	isReady?(): boolean;
+}
+
+/**
+ * Resolve once `el` has had no DOM mutations or size changes for
+ * `QUIET_PERIOD`, or after `timeout` at the latest, or as soon as `signal`
+ * aborts. CodeMirror updates and post-processors rendering into the view
+ * (e.g. Dataview) count as changes.
+ */
+export function waitForQuiet(el: HTMLElement, timeout = MAX_RENDER_WAIT, signal?: AbortSignal): Promise<void> {
+	const win = el.win;
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve();
+			return;
+		}
+
+		let quietTimer = 0;
+		const finish = () => {
+			win.clearTimeout(quietTimer);
+			win.clearTimeout(timeoutTimer);
+			mutations.disconnect();
+			resizes.disconnect();
+			signal?.removeEventListener("abort", finish);
+			resolve();
+		};
+		const restart = () => {
+			win.clearTimeout(quietTimer);
+			quietTimer = win.setTimeout(finish, QUIET_PERIOD);
+		};
+
+		const mutations = new MutationObserver(restart);
+		mutations.observe(el, { childList: true, subtree: true, characterData: true });
+		const resizes = new ResizeObserver(restart);
+		resizes.observe(el);
+		const timeoutTimer = win.setTimeout(finish, timeout);
+		signal?.addEventListener("abort", finish);
+		restart();
+	});
+}
+
+/**
+ * Resolve on the next animation frame of a window.
+ */
+function nextFrame(win: Window): Promise<void> {
+	return new Promise((resolve) => win.requestAnimationFrame(() => resolve()));
+}
+
+/**
+ * A single restore of one leaf: waits for the view to be rendered, applies
+ * the step, and re-applies it (up to `MAX_ATTEMPTS` times) until the view
+ * is verified to be at the target once rendering has settled.
+ *
+ * Only the leaf being restored is affected; the tracker suppresses saves
+ * for that leaf while its transaction runs. Scrolling, clicking or typing
+ * in the leaf cancels it, so a view that never stops rendering can't keep
+ * pulling the user back.
+ */
+export class RestoreTransaction {
+	private controller = new AbortController();
+
+	constructor(readonly leaf: WorkspaceLeaf, private step: RestoreStep) {}
+
+	/**
+	 * Stop the transaction, e.g. because a newer restore for the same leaf
+	 * started or the user took over.
+	 */
+	cancel(): void {
+		this.controller.abort();
+	}
+
+	private get cancelled(): boolean {
+		return this.controller.signal.aborted;
+	}
+
+	/**
+	 * Run the restore. Resolves to whether the target was reached; false
+	 * if it was cancelled or never verified.
+	 */
+	async run(): Promise<boolean> {
+		const el = this.leaf.view.containerEl;
+		const cancel = () => this.cancel();
+		for (const type of USER_INPUT_EVENTS) {
+			el.addEventListener(type, cancel, { capture: true, passive: true });
+		}
+		try {
+			return await this.restore(el);
+		} finally {
+			for (const type of USER_INPUT_EVENTS) {
+				el.removeEventListener(type, cancel, { capture: true });
+			}
+		}
+	}
+
+	private async restore(el: HTMLElement): Promise<boolean> {
+		const win = el.win;
+		const signal = this.controller.signal;
+
+		// The leaf is still loading its file
+		const deadline = Date.now() + MAX_RENDER_WAIT;
+		while ((this.leaf.working || !(this.step.isReady?.() ?? true)) && Date.now() < deadline) {
+			await nextFrame(win);
+			if (this.cancelled) return false;
+		}
+
+		await waitForQuiet(el, MAX_RENDER_WAIT, signal);
+		for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+			if (this.cancelled) return false;
+			this.step.apply(attempt);
+
+			// Let the move (and anything it makes render) settle before checking
+			await nextFrame(win);
+			await waitForQuiet(el, MAX_RENDER_WAIT, signal);
+			if (this.cancelled) return false;
+			if (this.step.isSettled()) return true;
+		}
+		return false;
+	}
+}
@@ -0,0 +1,79 @@
+import { App, TFile, getAllTags } from "obsidian";
+import { PluginSettings, RestoreBehaviour, RestoreRule } from "./types";
+import { folderGlobToRegExp } from "./keys";
+
+/** Frontmatter property that overrides the rules for a single note */
+export const FRONTMATTER_OVERRIDE = "scroll-position";
+
+const BEHAVIOURS: RestoreBehaviour[] = ["restore", "top", "bottom", "scroll-only", "ignore"];
+
+function matchesFolder(file: TFile, pattern: string): boolean {
+	if (!pattern.trim()) return false;
+	const folder = !file.parent || file.parent.isRoot() ? "" : file.parent.path;
+	return folderGlobToRegExp(pattern).test(folder);
+}
+
+function matchesTag(app: App, file: TFile, pattern: string): boolean {
+	const tag = pattern.trim().replace(/^#?/, "#").toLowerCase();
+	if (tag === "#") return false;
+
+	const cache = app.metadataCache.getFileCache(file);
+	const tags = cache ? getAllTags(cache) ?? [] : [];
+	// Nested tags count: "#project" matches "#project/active"
+	return tags.some((t) => {
+		const lower = t.toLowerCase();
+		return lower === tag || lower.startsWith(tag + "/");
+	});
+}
+
+function matchesFrontmatter(app: App, file: TFile, pattern: string): boolean {
+	const [property, expected] = pattern.split("=").map((part) => part.trim());
+	if (!property) return false;
+
+	const value: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.[property];
+	if (value === undefined || value === null) return false;
+	if (expected === undefined) return true;
+
+	const values = Array.isArray(value) ? value : [value];
+	return values.some((v) => String(v).toLowerCase() === expected.toLowerCase());
+}
+
+function matchesRule(app: App, file: TFile, rule: RestoreRule): boolean {
+	switch (rule.match) {
+		case "folder":
+			return matchesFolder(file, rule.pattern);
+		case "tag":
+			return matchesTag(app, file, rule.pattern);
+		case "frontmatter":
+			return matchesFrontmatter(app, file, rule.pattern);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Read the note-level override from frontmatter (e.g. `scroll-position: bottom`).
+ * "never" and "none" are accepted as aliases for "ignore".
+ */
+function getOverride(app: App, file: TFile): RestoreBehaviour | null {
+	const value: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_OVERRIDE];
+	if (typeof value !== "string") return null;
+
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "never" || normalized === "none") return "ignore";
+	return BEHAVIOURS.includes(normalized as RestoreBehaviour) ? normalized as RestoreBehaviour : null;
+}
+
+/**
+ * Decide how a note's position is handled: the note's frontmatter override
+ * wins, then the first matching rule, then normal restore.
+ */
+export function getRestoreBehaviour(app: App, file: TFile, settings: PluginSettings): RestoreBehaviour {
+	const override = getOverride(app, file);
+	if (override) return override;
+
+	for (const rule of settings.rules) {
+		if (matchesRule(app, file, rule)) return rule.behaviour;
+	}
+	return "restore";
+}
@@ -1,5 +1,7 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type RememberScrollPositionPlugin from "./main";
+import { NavigationPolicy, PluginSettings, RestoreBehaviour, RestoreRule } from "./types";
+import { FRONTMATTER_OVERRIDE } from "./rules";
 
 export class SettingsTab extends PluginSettingTab {
 	plugin: RememberScrollPositionPlugin;
@@ -32,6 +34,23 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Track positions")
+			.setDesc(
+				"Remember one position per note, or a separate position for each pane the " +
+				"note is open in. Panes without a position of their own use the note's latest one."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("pane", "Per pane")
+					.addOption("note", "One per note")
+					.setValue(this.plugin.settings.positionScope)
+					.onChange(async (value) => {
+						this.plugin.settings.positionScope = value as PluginSettings["positionScope"];
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Respect link navigation")
 			.setDesc(
@@ -47,10 +66,70 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Remember scroll in previews and embeds")
+			.setDesc(
+				"Remember where you scrolled to inside hover previews and embedded notes, " +
+				"so reopening the preview shows the same spot. Kept until Obsidian is closed."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.rememberEmbeds)
+					.onChange(async (value) => {
+						this.plugin.settings.rememberEmbeds = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Remember scroll in sidebar panes")
+			.setDesc(
+				"Remember where you scrolled to in the file explorer, search, backlinks and outline, " +
+				"per search query or note, and which folders were expanded in the file explorer. " +
+				"Kept until Obsidian is closed."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.rememberPanes)
+					.onChange(async (value) => {
+						this.plugin.settings.rememberPanes = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Show reading progress in status bar")
+			.setDesc("Show how far through the active note you are, e.g. \"62% · line 340/548\".")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showStatusBar)
+					.onChange(async (value) => {
+						this.plugin.settings.showStatusBar = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Reading progress in file explorer")
+			.setDesc("Show how far you've read into each note, at the furthest, next to files in the file explorer.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("off", "Off")
+					.addOption("badge", "Percentage badge")
+					.addOption("bar", "Progress bar")
+					.setValue(this.plugin.settings.explorerProgress)
+					.onChange(async (value) => {
+						this.plugin.settings.explorerProgress = value as PluginSettings["explorerProgress"];
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Maximum stored positions")
 			.setDesc(
-				"Limit how many note positions are remembered. Oldest are discarded first. " +
+				"Limit how many notes have their position remembered. Each note counts once, " +
+				"however many panes it was open in. Least recently read notes are discarded first, " +
+				"with their pane positions; pinned notes and notes with marks are kept. " +
 				"Set to 0 for unlimited."
 			)
 			.addText((text) =>
@@ -66,10 +145,64 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Forget positions after")
+			.setDesc(
+				"Forget positions of notes you haven't read for this many days. " +
+				"Pinned notes and notes with marks are kept. Set to 0 to keep positions forever."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.expireAfterDays))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.expireAfterDays = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Forget positions near the top")
+			.setDesc(
+				"Don't keep positions within the first screen of a note, since opening the note " +
+				"shows the same thing. Keeps the positions file small. Notes you've read further keep " +
+				"their history and progress."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.forgetFirstScreen)
+					.onChange(async (value) => {
+						this.plugin.settings.forgetFirstScreen = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Position history size")
+			.setDesc(
+				"How many recent positions to remember per note for back/forward navigation. " +
+				"Set to 0 to disable history."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("10")
+					.setValue(String(this.plugin.settings.historySize))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.historySize = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Persist across restarts")
 			.setDesc(
-				"Save positions to a file so they survive when Obsidian is closed and reopened."
+				"Save positions so they survive when Obsidian is closed and reopened."
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -77,23 +210,262 @@ export class SettingsTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.persistToDisk = value;
 						await this.plugin.saveSettings();
+						await this.plugin.switchStorageBackend();
+						this.display();
 					})
 			);
 
+		if (this.plugin.settings.persistToDisk) {
+			new Setting(containerEl)
+				.setName("Storage")
+				.setDesc(
+					"Where positions are saved. \"Positions file\" keeps a file per device in the plugin folder. " +
+					"\"This device only\" uses the app's local database and never writes to the vault. " +
+					"\"Note properties\" writes each note's position into its frontmatter so it travels with the note."
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("file", "Positions file")
+						.addOption("indexeddb", "This device only")
+						.addOption("frontmatter", "Note properties")
+						.setValue(this.plugin.settings.storageBackend)
+						.onChange(async (value) => {
+							this.plugin.settings.storageBackend = value as PluginSettings["storageBackend"];
+							await this.plugin.saveSettings();
+							await this.plugin.switchStorageBackend();
+							this.display();
+						})
+				);
+		}
+
+		if (this.plugin.settings.persistToDisk && this.plugin.settings.storageBackend === "file") {
+			new Setting(containerEl)
+				.setName("Sync positions across devices")
+				.setDesc(
+					"Read the positions files of your other devices (synced with the vault) and " +
+					"pick up where you left off there. Each device still writes only its own file."
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.syncAcrossDevices)
+						.onChange(async (value) => {
+							this.plugin.settings.syncAcrossDevices = value;
+							await this.plugin.saveSettings();
+							await this.plugin.switchStorageBackend();
+							this.display();
+						})
+				);
+
+			if (this.plugin.settings.syncAcrossDevices) {
+				new Setting(containerEl)
+					.setName("When another device has a newer position")
+					.addDropdown((dropdown) =>
+						dropdown
+							.addOption("newest", "Use the newest position")
+							.addOption("local", "Keep this device's position")
+							.addOption("ask", "Ask when opening the note")
+							.setValue(this.plugin.settings.syncPolicy)
+							.onChange(async (value) => {
+								this.plugin.settings.syncPolicy = value as PluginSettings["syncPolicy"];
+								await this.plugin.saveSettings();
+							})
+					);
+			}
+		}
+
+		if (this.plugin.settings.persistToDisk && this.plugin.settings.storageBackend === "frontmatter") {
+			new Setting(containerEl)
+				.setName("Property name")
+				.setDesc("Frontmatter property the position is written to.")
+				.addText((text) =>
+					text
+						.setPlaceholder("reading-position")
+						.setValue(this.plugin.settings.frontmatterProperty)
+						.onChange(async (value) => {
+							const name = value.trim();
+							if (name) {
+								this.plugin.settings.frontmatterProperty = name;
+								await this.plugin.saveSettings();
+							}
+						})
+				);
+		}
+
+		this.displayPrivacy(containerEl);
+		this.displayNavigation(containerEl);
+		this.displayRules(containerEl);
+	}
+
+	hide(): void {
+		super.hide();
+		void this.applyExclusions();
+	}
+
+	/**
+	 * Path hashing and excluded folders.
+	 */
+	private displayPrivacy(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+
 		new Setting(containerEl)
-			.setName("Restore delay")
+			.setName("Privacy")
+			.setHeading();
+
+		if (settings.persistToDisk && settings.storageBackend !== "indexeddb") {
+			new Setting(containerEl)
+				.setName("Hide note names in the positions file")
+				.setDesc(
+					"Store note paths as salted hashes, so the positions file doesn't reveal which notes you read. " +
+					"The salt never leaves this device: other devices can't sync from this device's file, " +
+					"and positions are lost if the app's local storage is cleared."
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(settings.hashPaths)
+						.onChange(async (value) => {
+							settings.hashPaths = value;
+							await this.plugin.saveSettings();
+							await this.plugin.switchStorageBackend();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Excluded folders")
 			.setDesc(
-				"Delay in milliseconds before restoring position after opening a note. " +
-				"Increase if position isn't restoring correctly (e.g., with slow-loading plugins)."
+				"Notes in these folders are never tracked or stored, one folder per line. " +
+				"Use * and ** like in restore rules, or a note's path to exclude a single note. " +
+				"Positions already stored for them are forgotten when you leave this field."
 			)
-			.addSlider((slider) =>
-				slider
-					.setLimits(0, 500, 10)
-					.setValue(this.plugin.settings.restoreDelay)
-					.setDynamicTooltip()
+			.addTextArea((text) => {
+				text
+					.setPlaceholder("HR\nPrivate/**")
+					.setValue(settings.excludedFolders.join("\n"))
 					.onChange(async (value) => {
-						this.plugin.settings.restoreDelay = value;
+						settings.excludedFolders = value.split("\n").map((line) => line.trim()).filter((line) => line);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.addEventListener("blur", () => { void this.applyExclusions(); });
+			});
+	}
+
+	/**
+	 * Forget positions in newly excluded folders and say how many went.
+	 */
+	private async applyExclusions(): Promise<void> {
+		const removed = await this.plugin.applyExclusions();
+		if (removed > 0) {
+			new Notice(`Forgot ${removed} position${removed === 1 ? "" : "s"} in excluded folders.`);
+		}
+	}
+
+	/**
+	 * Per-source navigation policies.
+	 */
+	private displayNavigation(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Navigation")
+			.setDesc(
+				"Whether to restore the saved position depending on how a note was opened. " +
+				"Skipping keeps the position the navigation chose, e.g. the search match or " +
+				"where you were when going back. Links follow \"Respect link navigation\" above."
+			)
+			.setHeading();
+
+		const sources: [keyof PluginSettings["navigationPolicies"], string][] = [
+			["history", "Back and forward"],
+			["search", "Search results"],
+			["quick-switcher", "Quick switcher"],
+			["graph", "Graph view"],
+			["bookmark", "Bookmarks"],
+			["other", "Everything else"],
+		];
+		const policies = this.plugin.settings.navigationPolicies;
+		for (const [source, name] of sources) {
+			new Setting(containerEl)
+				.setName(name)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("restore", "Restore position")
+						.addOption("skip", "Don't restore")
+						.setValue(policies[source])
+						.onChange(async (value) => {
+							policies[source] = value as NavigationPolicy;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+	}
+
+	/**
+	 * Per-folder/tag/frontmatter restore rules.
+	 */
+	private displayRules(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Restore rules")
+			.setDesc(
+				"Choose how positions are handled for matching notes. The first matching rule wins. " +
+				`A note can override all rules with a "${FRONTMATTER_OVERRIDE}" property ` +
+				"(restore, top, bottom, scroll-only or never)."
+			)
+			.setHeading();
+
+		const rules = this.plugin.settings.rules;
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("folder", "Folder")
+						.addOption("tag", "Tag")
+						.addOption("frontmatter", "Property")
+						.setValue(rule.match)
+						.onChange(async (value) => {
+							rule.match = value as RestoreRule["match"];
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Journal, #reference or type=log")
+						.setValue(rule.pattern)
+						.onChange(async (value) => {
+							rule.pattern = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("restore", "Restore position")
+						.addOption("top", "Always open at top")
+						.addOption("bottom", "Always open at bottom")
+						.addOption("scroll-only", "Restore scroll only")
+						.addOption("ignore", "Never track")
+						.setValue(rule.behaviour)
+						.onChange(async (value) => {
+							rule.behaviour = value as RestoreBehaviour;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove rule")
+						.onClick(async () => {
+							rules.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add rule")
+					.onClick(async () => {
+						rules.push({ match: "folder", pattern: "", behaviour: "restore" });
 						await this.plugin.saveSettings();
+						this.display();
 					})
 			);
 	}
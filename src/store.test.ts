@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import { FakeWorkspace } from "./fake-host";
+import { SavedPosition } from "./types";
+
+/** Leaf ids, in the form Obsidian gives them */
+const A = "aaaaaaaaaaaaaaaa";
+const B = "bbbbbbbbbbbbbbbb";
+
+/** A position at a line */
+function at(line: number, timestamp = line): SavedPosition {
+	return { timestamp, scroll: line, cursor: { from: { line, ch: 0 }, to: { line, ch: 0 } } };
+}
+
+describe("eviction", () => {
+	it("evicts the least recently written positions first", () => {
+		const { store } = new FakeWorkspace({ maxPositions: 3 });
+		store.set("a.md", at(1));
+		store.set("b.md", at(2));
+		store.set("c.md", at(3));
+		store.set("a.md", at(4));
+		store.set("d.md", at(5));
+
+		expect(store.entries().map(([key]) => key).sort()).toEqual(["a.md", "c.md", "d.md"]);
+	});
+
+	it("never evicts pinned or marked notes", () => {
+		const { store } = new FakeWorkspace({ maxPositions: 3 });
+		store.set("pinned.md", at(1));
+		store.setPinned("pinned.md", true);
+		store.setMark("marked.md", { ...at(2), name: "here" });
+		store.set("a.md", at(3));
+		store.set("b.md", at(4));
+
+		expect(store.entries().map(([key]) => key).sort()).toEqual(["b.md", "marked.md", "pinned.md"]);
+	});
+
+	it("counts a note once however many panes it has positions for", () => {
+		const { store } = new FakeWorkspace({ maxPositions: 2 });
+		store.set(`a.md#${A}`, at(1), false);
+		store.set("a.md", at(1));
+		store.set(`a.md#${B}`, at(2), false);
+		store.set(`b.md#${A}`, at(3), false);
+		store.set("b.md", at(3));
+
+		expect(store.entries().map(([key]) => key).sort()).toEqual(["a.md", `a.md#${A}`, `a.md#${B}`, "b.md", `b.md#${A}`]);
+	});
+
+	it("evicts a note's pane positions with it", () => {
+		const { store } = new FakeWorkspace({ maxPositions: 2 });
+		store.set(`a.md#${A}`, at(1), false);
+		store.set("a.md", at(1));
+		store.set(`b.md#${A}`, at(2), false);
+		store.set("b.md", at(2));
+		store.set(`c.md#${A}`, at(3), false);
+		store.set("c.md", at(3));
+
+		expect(store.entries().map(([key]) => key).sort()).toEqual(["b.md", `b.md#${A}`, "c.md", `c.md#${A}`]);
+	});
+
+	it("keeps marks and pin when a position is saved again", () => {
+		const { store } = new FakeWorkspace();
+		store.setMark("a.md", { ...at(10), name: "here" });
+		store.setPinned("a.md", true);
+		store.set("a.md", at(200));
+
+		expect(store.get("a.md")?.scroll).toBe(200);
+		expect(store.get("a.md")?.pinned).toBe(true);
+		expect(store.getMarks("a.md")).toHaveLength(1);
+	});
+});
+
+describe("paths with #", () => {
+	it("are renamed with their pane positions", () => {
+		const { store } = new FakeWorkspace();
+		store.set("C# notes.md", at(10));
+		store.set(`C# notes.md#${A}`, at(10), false);
+		store.rename("C# notes.md", "csharp.md");
+
+		expect(store.entries().map(([key]) => key).sort()).toEqual(["csharp.md", `csharp.md#${A}`]);
+	});
+
+	it("count toward the limit like any note", () => {
+		const { store } = new FakeWorkspace({ maxPositions: 1 });
+		store.set("C#/notes.md", at(1));
+		store.set("c.md", at(2));
+
+		expect(store.entries().map(([key]) => key)).toEqual(["c.md"]);
+	});
+});
+
+describe("remote positions", () => {
+	it("keep the local marks, pin, history and progress", () => {
+		const { store } = new FakeWorkspace();
+		store.set("a.md", { ...at(100), progress: 0.8 });
+		store.set("a.md", { ...at(300), progress: 0.9 });
+		store.setMark("a.md", { ...at(50), name: "here" });
+		store.setPinned("a.md", true);
+
+		store.putRemote({ "a.md": { ...at(20, 1000), progress: 0.1 } });
+
+		const stored = store.get("a.md");
+		expect(stored?.scroll).toBe(20);
+		expect(stored?.timestamp).toBe(1000);
+		expect(stored?.pinned).toBe(true);
+		expect(stored?.maxProgress).toBe(0.9);
+		expect(store.getMarks("a.md").map((m) => m.name)).toEqual(["here"]);
+		expect(store.getHistory("a.md").map((h) => h.scroll)).toEqual([100, 300]);
+	});
+
+	it("are taken as they are for notes without a local position", () => {
+		const { store } = new FakeWorkspace();
+		store.putRemote({ "a.md": at(20, 1000) });
+		expect(store.get("a.md")).toEqual(at(20, 1000));
+	});
+});
+
+describe("imports", () => {
+	it("replace the pane positions of the notes they overwrite", () => {
+		const { store } = new FakeWorkspace();
+		store.set(`a.md#${A}`, at(100), false);
+		store.set("a.md", at(100));
+		store.set(`b.md#${A}`, at(100), false);
+		store.set("b.md", at(100));
+
+		expect(store.importPositions({ "a.md": at(500, 1000) }, "overwrite")).toBe(1);
+		expect(store.entries().map(([key]) => key).sort()).toEqual(["a.md", "b.md", `b.md#${A}`]);
+	});
+
+	it("leave pane positions alone when skipped", () => {
+		const { store } = new FakeWorkspace();
+		store.set(`a.md#${A}`, at(100), false);
+		store.set("a.md", at(100));
+
+		expect(store.importPositions({ "a.md": at(500, 1) }, "newest")).toBe(0);
+		expect(store.get(`a.md#${A}`)?.scroll).toBe(100);
+	});
+});
+
+describe("pending positions", () => {
+	it("fill in notes without a position once resolved", async () => {
+		const ws = new FakeWorkspace();
+		ws.store.set("a.md", at(300, 2000));
+		ws.backend.pending = { "a.md": at(100, 1000), "b.md": at(200, 1000) };
+		await ws.store.flush();
+		const saves = ws.backend.saves;
+
+		await ws.store.loadPending();
+		expect(ws.store.get("a.md")?.scroll).toBe(300);
+		expect(ws.store.get("b.md")?.scroll).toBe(200);
+		await ws.store.flush();
+		expect(ws.backend.saves).toBe(saves);
+	});
+});
+
+describe("persistence", () => {
+	it("writes changes after the debounce", async () => {
+		const ws = new FakeWorkspace();
+		ws.store.set("a.md", at(100));
+		expect(ws.backend.saves).toBe(0);
+
+		ws.clock.advance(2000);
+		await ws.settle();
+		expect(ws.backend.saves).toBe(1);
+		expect(ws.backend.positions["a.md"]?.scroll).toBe(100);
+	});
+
+	it("runs one write at a time", async () => {
+		const ws = new FakeWorkspace();
+		const save = ws.backend.save.bind(ws.backend);
+		let running = 0;
+		let most = 0;
+		ws.backend.save = async (positions) => {
+			running++;
+			most = Math.max(most, running);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			await save(positions);
+			running--;
+		};
+
+		ws.store.set("a.md", at(100));
+		const first = ws.store.flush();
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		// Changed while the first write runs
+		ws.store.set("b.md", at(200));
+		await Promise.all([first, ws.store.flush()]);
+
+		expect(most).toBe(1);
+		expect(ws.backend.saves).toBe(2);
+		expect(ws.backend.positions["b.md"]?.scroll).toBe(200);
+	});
+});
@@ -1,86 +1,176 @@
-import { Plugin, normalizePath } from "obsidian";
-import { SavedPosition, PluginSettings } from "./types";
+import { NamedMark, SavedPosition, PluginSettings } from "./types";
+import { Clock, StorageBackend, systemClock } from "./host";
+import { isExcluded, isWithin, makeKey, parseKey } from "./keys";
+import type { ImportMode } from "./transfer";
 
 /**
- * Get or create a stable device ID stored in localStorage.
- * localStorage is device-local and never synced by Obsidian Sync,
- * making it ideal for distinguishing devices.
+ * Line a position refers to (top visible line, else cursor line),
+ * or undefined for positions that aren't line-based (PDF, canvas, ...).
  */
-function getDeviceId(): string {
-	const key = "remember-scroll-position-device-id";
-	let id = window.localStorage.getItem(key);
-	if (!id) {
-		// Generate a short random ID (8 hex chars)
-		const arr = new Uint8Array(4);
-		crypto.getRandomValues(arr);
-		id = Array.from(arr, (b) => b.toString(16).padStart(2, "0")).join("");
-		window.localStorage.setItem(key, id);
-	}
-	return id;
+export function positionLine(position: SavedPosition): number | undefined {
+	return position.anchor?.line ?? position.cursor?.to.line;
 }
 
 /**
- * Manages the position state store with LRU eviction and optional disk persistence.
+ * Whether two positions are far enough apart to count as separate
+ * history entries. Positions without a line are never distinct.
+ */
+export function isDistinctPosition(a: SavedPosition, b: SavedPosition): boolean {
+	const lineA = positionLine(a);
+	const lineB = positionLine(b);
+	if (lineA === undefined || lineB === undefined) return false;
+	return Math.abs(lineA - lineB) >= PositionStore.HISTORY_MIN_DISTANCE;
+}
+
+/**
+ * Whether a position is exempt from eviction and expiry: pinned notes and
+ * notes with named marks were kept deliberately.
+ */
+export function isProtected(position: SavedPosition): boolean {
+	return !!position.pinned || !!position.marks?.length;
+}
+
+/**
+ * Whether a position holds a record of reading the note — its history or
+ * progress — that forgetting its spot shouldn't lose.
+ */
+export function hasReadingRecord(position: SavedPosition): boolean {
+	return !!position.history?.length || !!position.maxProgress || !!position.finished;
+}
+
+/**
+ * Manages the position state store with LRU eviction and optional persistence
+ * through a StorageBackend (JSON file, IndexedDB or note frontmatter).
+ * Doesn't depend on Obsidian: time and timers come from a Clock.
+ * Positions of excluded paths are never stored.
  *
- * Each device gets its own positions file (e.g., positions-a1b2c3d4.json)
- * to avoid sync conflicts when the vault is synced across multiple devices.
+ * Calls its change listeners whenever stored positions are modified.
  */
 export class PositionStore {
 	private positions: Record<string, SavedPosition> = {};
-	private plugin: Plugin;
+	/** Keys from least to most recently written, so eviction needn't sort */
+	private order = new Set<string>();
+	/** Keys of per-pane positions, which don't count toward the limit */
+	private paneKeys = new Set<string>();
 	private settings: PluginSettings;
-	private dirty = false;
+	private backend: StorageBackend | null;
+	private clock: Clock;
+	private listeners = new Set<() => void>();
+	/** Keys set or removed since the last write */
+	private changed = new Set<string>();
 	private writeTimer: number | null = null;
-	private deviceId: string;
+	/** The last write queued, so only one runs at a time */
+	private writing: Promise<void> = Promise.resolve();
 
 	/** Debounce interval for writing to disk (ms) */
 	private static readonly WRITE_DEBOUNCE = 2000;
 
-	constructor(plugin: Plugin, settings: PluginSettings) {
-		this.plugin = plugin;
+	/** Milliseconds in a day, for expiry */
+	private static readonly DAY = 24 * 60 * 60 * 1000;
+
+	/** Minimum distance in lines between two history entries */
+	static readonly HISTORY_MIN_DISTANCE = 15;
+
+	constructor(settings: PluginSettings, backend: StorageBackend | null, clock: Clock = systemClock) {
 		this.settings = settings;
-		this.deviceId = getDeviceId();
+		this.backend = backend;
+		this.clock = clock;
 	}
 
 	/**
-	 * Get the device-specific file path for positions storage.
-	 * Replaces "positions.json" with "positions-{deviceId}.json" in the configured path.
+	 * Call `callback` whenever stored positions change. Returns a function
+	 * that removes the listener.
 	 */
-	getFilePath(): string {
-		const base = this.settings.filePath;
-		return base.replace(/positions\.json$/, `positions-${this.deviceId}.json`);
+	onChange(callback: () => void): () => void {
+		this.listeners.add(callback);
+		return () => { this.listeners.delete(callback); };
 	}
 
 	/**
-	 * Load positions from disk if persistence is enabled.
+	 * Load positions from the storage backend if persistence is enabled.
 	 */
 	async load(): Promise<void> {
-		if (!this.settings.persistToDisk) return;
+		if (!this.backend) return;
 
-		const filePath = normalizePath(this.getFilePath());
 		try {
-			if (await this.plugin.app.vault.adapter.exists(filePath)) {
-				const data = await this.plugin.app.vault.adapter.read(filePath);
-				if (data) {
-					this.positions = JSON.parse(data);
-				}
-			} else {
-				// Migration: try loading from the old shared positions.json
-				const oldPath = normalizePath(this.settings.filePath);
-				if (await this.plugin.app.vault.adapter.exists(oldPath)) {
-					const data = await this.plugin.app.vault.adapter.read(oldPath);
-					if (data) {
-						this.positions = JSON.parse(data);
-						this.dirty = true;
-						// Write to the new device-specific file
-						await this.writeToDisk();
-					}
-				}
-			}
+			this.positions = await this.backend.load();
 		} catch (e) {
-			console.error("Remember Scroll Position: failed to load positions file:", e);
+			console.error("Remember Scroll Position: failed to load positions:", e);
 			this.positions = {};
 		}
+		this.order = new Set(
+			Object.keys(this.positions).sort((a, b) => this.positions[a].timestamp - this.positions[b].timestamp)
+		);
+		this.paneKeys = new Set(Object.keys(this.positions).filter((key) => parseKey(key).split));
+	}
+
+	/**
+	 * Add the positions the backend could only match to files once the
+	 * vault was fully loaded, unless a position was saved since. They're
+	 * already on disk, so nothing is written. Call once the layout is ready.
+	 */
+	async loadPending(): Promise<void> {
+		let positions: Record<string, SavedPosition> | undefined;
+		try {
+			positions = await this.backend?.resolvePending?.();
+		} catch (e) {
+			console.error("Remember Scroll Position: failed to load positions:", e);
+		}
+		if (!positions || Object.keys(positions).length === 0) return;
+
+		for (const key in positions) {
+			if (!this.positions[key]) this.put(key, positions[key]);
+		}
+		this.evict();
+		this.notify();
+	}
+
+	/**
+	 * Switch to another storage backend, copying all positions into it.
+	 */
+	async switchBackend(backend: StorageBackend | null): Promise<void> {
+		await this.flush();
+		this.backend = backend;
+		for (const key in this.positions) this.changed.add(key);
+		await this.flush();
+	}
+
+	/**
+	 * Whether a file path is excluded from tracking in settings.
+	 */
+	isExcluded(path: string): boolean {
+		return isExcluded(path, this.settings.excludedFolders);
+	}
+
+	/**
+	 * Remove the positions of every excluded path, then write the change
+	 * and discard backups that still hold them. Returns the number removed.
+	 */
+	async purgeExcluded(): Promise<number> {
+		let removed = 0;
+		for (const key of Object.keys(this.positions)) {
+			if (!this.isExcluded(parseKey(key).path)) continue;
+			this.remove(key);
+			removed++;
+		}
+		if (removed > 0) {
+			this.markChanged();
+			await this.scrub();
+		}
+		return removed;
+	}
+
+	/**
+	 * Write pending changes and discard the backend's backups, so no copy
+	 * of a removed or re-keyed position is left behind.
+	 */
+	async scrub(): Promise<void> {
+		await this.flush();
+		try {
+			await this.backend?.discardBackups?.();
+		} catch (e) {
+			console.error("Remember Scroll Position: failed to discard backups:", e);
+		}
 	}
 
 	/**
@@ -91,112 +181,424 @@ export class PositionStore {
 	}
 
 	/**
-	 * Save a position for a file key.
+	 * Get all stored positions as [key, position] pairs.
+	 */
+	entries(): [string, SavedPosition][] {
+		return Object.entries(this.positions);
+	}
+
+	/**
+	 * Get the position history for a file key, oldest first.
+	 * The last entry is the most recent spot.
+	 */
+	getHistory(key: string): SavedPosition[] {
+		return this.positions[key]?.history ?? [];
+	}
+
+	/**
+	 * Get the named marks for a file key, in the order they were added.
+	 */
+	getMarks(key: string): NamedMark[] {
+		return this.positions[key]?.marks ?? [];
+	}
+
+	/**
+	 * Add a named mark to a file key, replacing any mark with the same name.
+	 * If the key has no position yet, the mark's position becomes it.
 	 */
-	set(key: string, position: SavedPosition): void {
+	setMark(key: string, mark: NamedMark): void {
+		const existing = this.positions[key];
+		const entry: NamedMark = { ...mark };
+		delete entry.history;
+		delete entry.marks;
+
+		const marks = (existing?.marks ?? []).filter((m) => m.name !== mark.name);
+		marks.push(entry);
+
+		if (existing) {
+			this.put(key, { ...existing, marks });
+		} else {
+			const position: SavedPosition = { ...entry, marks };
+			delete (position as Partial<NamedMark>).name;
+			this.put(key, position);
+		}
+		this.changed.add(key);
+		this.evict();
+		this.markChanged();
+	}
+
+	/**
+	 * Remove a named mark from a file key. Returns false if there was none.
+	 */
+	deleteMark(key: string, name: string): boolean {
+		const existing = this.positions[key];
+		const marks = existing?.marks?.filter((m) => m.name !== name);
+		if (!existing || !marks || marks.length === existing.marks?.length) return false;
+
+		this.positions[key] = { ...existing, marks };
+		if (!marks.length) delete this.positions[key].marks;
+		this.changed.add(key);
+		this.markChanged();
+		return true;
+	}
+
+	/**
+	 * Pin or unpin a file key's position. Pinned positions are never evicted
+	 * or expired. Returns false if the key has no position.
+	 */
+	setPinned(key: string, pinned: boolean): boolean {
+		const existing = this.positions[key];
+		if (!existing) return false;
+
+		const position = { ...existing };
+		if (pinned) {
+			position.pinned = true;
+		} else {
+			delete position.pinned;
+		}
 		this.positions[key] = position;
-		this.dirty = true;
+		this.changed.add(key);
+		this.markChanged();
+		return true;
+	}
+
+	/**
+	 * Save a position for a file key. Its named marks and pin are kept.
+	 *
+	 * Unless `recordHistory` is false, the position is also recorded in the
+	 * key's history: it replaces the latest entry if it's close to it, and
+	 * is appended as a new entry (dropping older entries near it) otherwise.
+	 */
+	set(key: string, position: SavedPosition, recordHistory = true): void {
+		let history = this.positions[key]?.history ?? [];
+
+		if (recordHistory && this.settings.historySize > 0 && positionLine(position) !== undefined) {
+			const entry: SavedPosition = { ...position };
+			delete entry.history;
+			delete entry.marks;
+
+			const last = history[history.length - 1];
+			if (last && !isDistinctPosition(last, entry)) {
+				history = [...history.slice(0, -1), entry];
+			} else {
+				history = history.filter((h) => isDistinctPosition(h, entry));
+				history.push(entry);
+			}
+			history = history.slice(-this.settings.historySize);
+		}
+
+		// Reading progress only ever moves forward
+		const previous = this.positions[key];
+		if (previous?.maxProgress !== undefined || position.progress !== undefined) {
+			position.maxProgress = Math.max(previous?.maxProgress ?? 0, position.progress ?? 0);
+		}
+		if (previous?.finished || position.finished) {
+			position.finished = true;
+		}
+
+		const marks = position.marks ?? previous?.marks;
+		const stored: SavedPosition = { ...position };
+		if (history.length) stored.history = history;
+		if (marks?.length) stored.marks = marks;
+		if (previous?.pinned && position.pinned === undefined) stored.pinned = true;
+		this.put(key, stored);
+		this.changed.add(key);
 		this.evict();
-		this.scheduleDiskWrite();
+		this.markChanged();
+	}
+
+	/**
+	 * Remove the pane positions of a note, so the note-level position is
+	 * what every pane restores. Returns the number removed.
+	 */
+	clearPanes(path: string): number {
+		const removed = this.removePanes(path);
+		if (removed > 0) this.markChanged();
+		return removed;
+	}
+
+	/**
+	 * Store positions received from another device, without recording
+	 * history or marking them for a write of their own. Like `set`, the
+	 * local named marks, pin and history are kept, and reading progress
+	 * only moves forward. A newer note-level position replaces the note's
+	 * pane positions, which would otherwise be restored over it.
+	 */
+	putRemote(positions: Record<string, SavedPosition>): void {
+		const keys = Object.keys(positions);
+		if (keys.length === 0) return;
+		let removedPanes = 0;
+		for (const key of keys) {
+			const local = this.positions[key];
+			const stored: SavedPosition = { ...positions[key] };
+			if (local?.history?.length) stored.history = local.history;
+			if (local?.marks?.length) stored.marks = local.marks;
+			if (local?.pinned) stored.pinned = true;
+			if (local?.maxProgress !== undefined) {
+				stored.maxProgress = Math.max(local.maxProgress, stored.maxProgress ?? 0);
+			}
+			if (local?.finished) stored.finished = true;
+			this.put(key, stored);
+			if (!parseKey(key).split) removedPanes += this.removePanes(key);
+		}
+		this.evict();
+		// The removed pane positions need writing; the remote ones don't
+		if (removedPanes > 0) {
+			this.markChanged();
+		} else {
+			this.notify();
+		}
+	}
+
+	/**
+	 * Import positions from an export. Returns the number of positions taken.
+	 * An imported note-level position replaces the note's pane positions.
+	 *
+	 * - "overwrite": imported positions replace existing ones
+	 * - "newest": the more recent of the imported and existing position wins
+	 * - "skip": only keys without an existing position are imported
+	 */
+	importPositions(positions: Record<string, SavedPosition>, mode: ImportMode): number {
+		let imported = 0;
+		for (const key in positions) {
+			const existing = this.positions[key];
+			if (existing && mode === "skip") continue;
+			if (existing && mode === "newest" && existing.timestamp >= positions[key].timestamp) continue;
+			if (this.isExcluded(parseKey(key).path)) continue;
+
+			this.put(key, positions[key]);
+			this.changed.add(key);
+			if (!parseKey(key).split) this.removePanes(key);
+			imported++;
+		}
+		if (imported > 0) {
+			this.evict();
+			this.markChanged();
+		}
+		return imported;
+	}
+
+	/**
+	 * Remove all positions for a file (every pane variant), or for every
+	 * file under a folder.
+	 */
+	delete(path: string): void {
+		let changed = false;
+		for (const key of Object.keys(this.positions)) {
+			if (isWithin(parseKey(key).path, path)) {
+				this.remove(key);
+				changed = true;
+			}
+		}
+		if (changed) this.markChanged();
 	}
 
 	/**
-	 * Remove a position by key.
+	 * Remove the positions of exactly these keys. Returns the number removed.
 	 */
-	delete(key: string): void {
-		if (key in this.positions) {
-			delete this.positions[key];
-			this.dirty = true;
-			this.scheduleDiskWrite();
+	deleteKeys(keys: string[]): number {
+		let removed = 0;
+		for (const key of keys) {
+			if (!this.positions[key]) continue;
+			this.remove(key);
+			removed++;
 		}
+		if (removed > 0) this.markChanged();
+		return removed;
 	}
 
 	/**
-	 * Rename a key (for file renames).
+	 * Move all positions for a file (every pane variant), or for every
+	 * file under a folder, to the new path.
 	 */
-	rename(oldKey: string, newKey: string): void {
-		if (oldKey in this.positions) {
-			this.positions[newKey] = this.positions[oldKey];
-			delete this.positions[oldKey];
-			this.dirty = true;
-			this.scheduleDiskWrite();
+	rename(oldPath: string, newPath: string): void {
+		let changed = false;
+		for (const key of Object.keys(this.positions)) {
+			const { path, split } = parseKey(key);
+			if (!isWithin(path, oldPath)) continue;
+
+			const newKey = makeKey(newPath + path.substring(oldPath.length), split);
+			const position = this.positions[key];
+			this.remove(key);
+			this.put(newKey, position);
+			this.changed.add(newKey);
+			changed = true;
 		}
+		if (changed) this.markChanged();
+	}
+
+	/**
+	 * Remove every stored position.
+	 */
+	clear(): void {
+		if (this.size === 0) return;
+		for (const key in this.positions) this.changed.add(key);
+		this.positions = {};
+		this.order.clear();
+		this.paneKeys.clear();
+		this.markChanged();
 	}
 
 	/**
 	 * Get the number of stored positions.
 	 */
 	get size(): number {
-		return Object.keys(this.positions).length;
+		return this.order.size;
+	}
+
+	/**
+	 * Remove the position of exactly this key (not its other panes), unless
+	 * it's protected or has a reading record. Returns whether it was removed.
+	 */
+	forget(key: string): boolean {
+		const position = this.positions[key];
+		if (!position || isProtected(position) || hasReadingRecord(position)) return false;
+		this.remove(key);
+		this.markChanged();
+		return true;
+	}
+
+	/**
+	 * Forget positions older than the expiry setting, except protected ones.
+	 * Returns the number of positions forgotten.
+	 */
+	expire(): number {
+		if (this.settings.expireAfterDays <= 0) return 0;
+
+		const cutoff = this.clock.now() - this.settings.expireAfterDays * PositionStore.DAY;
+		let removed = 0;
+		for (const key of this.order) {
+			const position = this.positions[key];
+			if (position.timestamp < cutoff && !isProtected(position)) {
+				this.remove(key);
+				removed++;
+			}
+		}
+		if (removed > 0) this.markChanged();
+		return removed;
 	}
 
 	/**
-	 * Flush any pending writes to disk. Call on plugin unload.
+	 * Flush any pending writes to the backend. Call on plugin unload.
 	 */
 	async flush(): Promise<void> {
 		if (this.writeTimer !== null) {
-			window.clearTimeout(this.writeTimer);
+			this.clock.clearTimeout(this.writeTimer);
 			this.writeTimer = null;
 		}
-		if (this.dirty) {
-			await this.writeToDisk();
+		await (this.changed.size > 0 ? this.writeToDisk() : this.writing);
+	}
+
+	/**
+	 * Store a position and make it the most recently written, unless its
+	 * path is excluded.
+	 */
+	private put(key: string, position: SavedPosition): void {
+		if (this.isExcluded(parseKey(key).path)) return;
+		this.positions[key] = position;
+		this.order.delete(key);
+		this.order.add(key);
+		if (parseKey(key).split) this.paneKeys.add(key);
+	}
+
+	/**
+	 * Remove every pane position of a note path. Returns the number removed.
+	 */
+	private removePanes(path: string): number {
+		let removed = 0;
+		for (const key of this.paneKeys) {
+			if (parseKey(key).path !== path) continue;
+			this.remove(key);
+			removed++;
 		}
+		return removed;
+	}
+
+	/**
+	 * Remove a single key and record the removal for the next write.
+	 */
+	private remove(key: string): void {
+		delete this.positions[key];
+		this.order.delete(key);
+		this.paneKeys.delete(key);
+		this.changed.add(key);
 	}
 
 	/**
-	 * Evict oldest entries if over the limit.
+	 * Evict the least recently written notes if over the limit, skipping
+	 * protected ones. Only note positions count; a note's pane positions
+	 * are evicted with it.
 	 */
 	private evict(): void {
 		if (this.settings.maxPositions <= 0) return;
 
-		const keys = Object.keys(this.positions);
-		if (keys.length <= this.settings.maxPositions) return;
+		let excess = this.order.size - this.paneKeys.size - this.settings.maxPositions;
+		if (excess <= 0) return;
+		for (const key of this.order) {
+			if (excess <= 0) break;
+			if (this.paneKeys.has(key) || isProtected(this.positions[key])) continue;
+			this.remove(key);
+			this.removePanes(key);
+			excess--;
+		}
+	}
 
-		// Sort by timestamp ascending (oldest first)
-		const sorted = keys.sort(
-			(a, b) => (this.positions[a].timestamp ?? 0) - (this.positions[b].timestamp ?? 0)
-		);
+	/**
+	 * Mark the store as modified: schedule a disk write and notify listeners.
+	 */
+	private markChanged(): void {
+		this.scheduleDiskWrite();
+		this.notify();
+	}
 
-		// Remove oldest until within limit
-		const toRemove = sorted.length - this.settings.maxPositions;
-		for (let i = 0; i < toRemove; i++) {
-			delete this.positions[sorted[i]];
-		}
+	/**
+	 * Call every change listener.
+	 */
+	private notify(): void {
+		for (const listener of this.listeners) listener();
 	}
 
 	/**
 	 * Schedule a debounced write to disk.
 	 */
 	private scheduleDiskWrite(): void {
-		if (!this.settings.persistToDisk || this.writeTimer !== null) return;
+		if (!this.backend || this.writeTimer !== null) return;
 
-		this.writeTimer = window.setTimeout(() => {
+		this.writeTimer = this.clock.setTimeout(() => {
 			this.writeTimer = null;
-			if (this.dirty) {
+			if (this.changed.size > 0) {
 				void this.writeToDisk();
 			}
 		}, PositionStore.WRITE_DEBOUNCE);
 	}
 
 	/**
-	 * Write positions to disk.
+	 * Queue a write of the changed positions after any write in progress.
 	 */
-	private async writeToDisk(): Promise<void> {
-		if (!this.settings.persistToDisk) return;
+	private writeToDisk(): Promise<void> {
+		this.writing = this.writing.then(() => this.write());
+		return this.writing;
+	}
 
-		const filePath = normalizePath(this.getFilePath());
-		try {
-			// Ensure directory exists
-			const dir = filePath.substring(0, filePath.lastIndexOf("/"));
-			if (dir && !(await this.plugin.app.vault.adapter.exists(dir))) {
-				await this.plugin.app.vault.adapter.mkdir(dir);
-			}
+	/**
+	 * Write changed positions to the backend.
+	 */
+	private async write(): Promise<void> {
+		if (!this.backend) {
+			this.changed.clear();
+			return;
+		}
+		// An earlier queued write may have taken them already
+		if (this.changed.size === 0) return;
 
-			const data = JSON.stringify(this.positions);
-			await this.plugin.app.vault.adapter.write(filePath, data);
-			this.dirty = false;
+		// Take the pending set first so changes made during the write aren't lost
+		const changed = this.changed;
+		this.changed = new Set();
+		try {
+			await this.backend.save(this.positions, changed);
 		} catch (e) {
-			console.error("Remember Scroll Position: failed to write positions file:", e);
+			console.error("Remember Scroll Position: failed to write positions:", e);
+			for (const key of changed) this.changed.add(key);
 		}
 	}
 }
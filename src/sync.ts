@@ -0,0 +1,140 @@
+import { debounce, FileView, Notice, Plugin } from "obsidian";
+import { PluginSettings, SavedPosition } from "./types";
+import { PositionStore } from "./store";
+import { PositionTracker } from "./tracker";
+import { JsonFileBackend } from "./backends";
+import { parseKey } from "./keys";
+
+/**
+ * Merges positions saved on other devices into this device's store.
+ *
+ * Each device keeps writing only its own positions-<id>.json, so writes
+ * never conflict; this reads the sibling files, merges them by latest
+ * timestamp per key, and applies the result according to the sync policy:
+ * - "newest": a newer position from another device replaces ours
+ * - "local": positions from other devices only fill in notes we have none for
+ * - "ask": newer positions from other devices are offered when the note is opened
+ *
+ * Only applies to the positions file backend.
+ */
+export class DeviceSync {
+	private plugin: Plugin;
+	private store: PositionStore;
+	private tracker: PositionTracker;
+	private settings: PluginSettings;
+	private backend: JsonFileBackend;
+
+	/** Newer positions from other devices waiting to be offered ("ask" policy) */
+	private pending = new Map<string, SavedPosition>();
+
+	private pullDebounced = debounce(() => { void this.pull(); }, 1000, true);
+
+	constructor(plugin: Plugin, store: PositionStore, tracker: PositionTracker, settings: PluginSettings) {
+		this.plugin = plugin;
+		this.store = store;
+		this.tracker = tracker;
+		this.settings = settings;
+		this.backend = new JsonFileBackend(plugin, settings);
+	}
+
+	/**
+	 * Register file watchers and do the initial merge. Call once during plugin load.
+	 */
+	register(): void {
+		const { vault, workspace } = this.plugin.app;
+
+		// Other devices' files change when the sync service delivers them
+		this.plugin.registerEvent(
+			vault.on("raw", (path: string) => {
+				if (this.isEnabled() && this.backend.isSiblingPath(path)) {
+					this.pullDebounced();
+				}
+			})
+		);
+
+		this.plugin.registerEvent(
+			workspace.on("file-open", () => this.offerPending())
+		);
+
+		void this.pull();
+	}
+
+	private isEnabled(): boolean {
+		return this.settings.syncAcrossDevices &&
+			this.settings.persistToDisk &&
+			this.settings.storageBackend === "file";
+	}
+
+	/**
+	 * Read all other devices' positions and merge them into the store.
+	 */
+	async pull(): Promise<void> {
+		if (!this.isEnabled()) return;
+
+		let siblings: Record<string, Record<string, SavedPosition>>;
+		try {
+			siblings = await this.backend.loadSiblings();
+		} catch (e) {
+			console.error("Remember Scroll Position: failed to read other devices' positions:", e);
+			return;
+		}
+
+		// Latest position per note across all other devices. Per-pane
+		// positions are skipped: pane ids belong to the other device's layout.
+		const remote: Record<string, SavedPosition> = {};
+		for (const positions of Object.values(siblings)) {
+			for (const key in positions) {
+				const position = positions[key];
+				if (typeof position?.timestamp !== "number" || parseKey(key).split) continue;
+				if (this.store.isExcluded(key)) continue;
+				if (!remote[key] || position.timestamp > remote[key].timestamp) {
+					remote[key] = position;
+				}
+			}
+		}
+
+		const accepted: Record<string, SavedPosition> = {};
+		for (const key in remote) {
+			const local = this.store.get(key);
+			if (!local) {
+				accepted[key] = remote[key];
+			} else if (remote[key].timestamp > local.timestamp) {
+				if (this.settings.syncPolicy === "newest") {
+					accepted[key] = remote[key];
+				} else if (this.settings.syncPolicy === "ask") {
+					this.pending.set(key, remote[key]);
+				}
+			}
+		}
+		this.store.putRemote(accepted);
+	}
+
+	/**
+	 * Offer a newer position from another device for the note just opened.
+	 */
+	private offerPending(): void {
+		if (this.pending.size === 0) return;
+
+		const leaf = this.plugin.app.workspace.getMostRecentLeaf();
+		const key = leaf?.view instanceof FileView ? leaf.view.file?.path : null;
+		if (!leaf || !key) return;
+
+		const remote = this.pending.get(key);
+		if (!remote) return;
+		this.pending.delete(key);
+
+		// We may have read further here since the offer was queued
+		const local = this.store.get(key);
+		if (local && local.timestamp >= remote.timestamp) return;
+
+		const fragment = document.createDocumentFragment();
+		fragment.createDiv({ text: "This note has a newer position from another device." });
+		const button = fragment.createEl("button", { text: "Jump there" });
+		const notice = new Notice(fragment, 10000);
+		button.addEventListener("click", () => {
+			notice.hide();
+			this.store.putRemote({ [key]: remote });
+			this.tracker.restoreLeaf(leaf, remote);
+		});
+	}
+}
@@ -1,6 +1,7 @@
 import {
 	debounce,
 	Debouncer,
+	EditorPosition,
 	FileView,
 	// Note: MarkdownView is imported for type casting only.
 	// Do NOT use `instanceof MarkdownView` — it fails at runtime because
@@ -10,60 +11,74 @@ import {
 	OpenViewState,
 	Plugin,
 	TAbstractFile,
+	TFile,
+	View,
 	Workspace,
 	WorkspaceLeaf,
 } from "obsidian";
 import { around } from "monkey-around";
 
-import { PluginSettings, SavedPosition } from "./types";
+import { MarkdownMode, NamedMark, NavigationSource, PluginSettings, SavedPosition } from "./types";
 import { PositionStore } from "./store";
+import { createAnchor, resolveAnchor } from "./anchor";
+import { BUILTIN_HANDLERS, ViewPositionHandler } from "./handlers";
+import { getProgress } from "./progress";
+import { getRestoreBehaviour } from "./rules";
+import { EVENT_RESTORED, EVENT_SAVED } from "./api";
+import { registerDocuments } from "./windows";
+import { RestoreStep, RestoreTransaction } from "./restore";
+import { PositionEngine } from "./engine";
+import { PendingNavigation, ViewAdapter, systemClock } from "./host";
 
 /**
- * A WorkspaceLeaf with a typed FileView.
+ * Navigation sources implied by the view a navigation was started from.
  */
-interface FileLeaf extends WorkspaceLeaf {
-	view: FileView;
-}
+const VIEW_SOURCES: Record<string, NavigationSource> = {
+	search: "search",
+	graph: "graph",
+	localgraph: "graph",
+	bookmarks: "bookmark",
+};
 
 /**
- * Core position tracking and restoration logic.
+ * Position tracking and restoration in Obsidian: the host of the
+ * PositionEngine, which makes the save and restore decisions.
  *
  * Architecture:
+ * - Engine: this class reports workspace events to a PositionEngine and
+ *   captures and applies positions for it through a ViewAdapter per leaf
  * - Event-driven: listens to scroll, file-open, cursor changes via Obsidian events
  * - No polling: uses debounced event handlers for minimal overhead
- * - Link-aware: monkey-patches openLinkText to detect intentional navigation
- * - Per-split tracking: same file in different splits gets independent positions
+ * - Navigation-aware: monkey-patches link, file, history and quick switcher
+ *   entry points to tell how a file was opened, and applies per-source policies
+ * - Per-pane tracking: positions are keyed by the leaf's persistent id, so the
+ *   same file in different panes is tracked independently and rearranging
+ *   panes doesn't change keys; the note-level position is the fallback
+ * - Multi-window: scroll listeners are attached to every popout window too
+ * - Pluggable views: non-markdown views are handled by ViewPositionHandlers
+ * - Rules: folder/tag/frontmatter rules pick a restore behaviour per note
  * - LRU eviction: bounded memory via PositionStore
  *
  * Key lessons (from debugging):
  * - `instanceof MarkdownView` fails at runtime with esbuild — use getViewType()
  * - `editor.scrollIntoView()` scrolls to cursor visibility, NOT actual scroll offset
  * - `setEphemeralState({ scroll })` is the correct way to restore scroll position
- * - Saves must be blocked during file transitions to prevent overwriting with scroll=0
+ * - Saves must be blocked during file transitions (see PositionEngine)
  */
 export class PositionTracker {
 	private store: PositionStore;
 	private settings: PluginSettings;
 	private plugin: Plugin;
+	private engine: PositionEngine;
 
-	/** Tracks whether a link was used to open the current file */
-	private linkUsed = false;
-
-	/**
-	 * Counter for in-progress file transitions.
-	 * While > 0, position saves are blocked to prevent overwriting
-	 * stored positions with scroll=0 from newly-loading files.
-	 *
-	 * Incremented by: active-leaf-change (with 1s safety timeout)
-	 * Decremented by: restore completion (with 500ms settle delay)
-	 */
-	private filesOpening = 0;
+	/** Restore transactions in flight, by leaf, so a newer one can cancel them */
+	private restoring = new Map<WorkspaceLeaf, RestoreTransaction>();
 
-	/** Whether the workspace has finished initial layout */
-	private layoutReady: boolean;
+	/** The engine's adapter for each leaf */
+	private views = new WeakMap<WorkspaceLeaf, ViewAdapter>();
 
-	/** The last leaf we tracked, so we can save its position on switch-away */
-	private lastLeaf: FileLeaf | null = null;
+	/** The leaf of each adapter, to report engine events */
+	private leaves = new WeakMap<ViewAdapter, WorkspaceLeaf>();
 
 	/** Debounced state saver */
 	private saveDebounced: Debouncer<[], void>;
@@ -71,14 +86,48 @@ export class PositionTracker {
 	/** Debounced scroll handler */
 	private onScrollDebounced: Debouncer<[Event], void>;
 
+	/** Listeners for every scroll event, before debouncing */
+	private scrollListeners: ((e: Event) => void)[] = [];
+
+	/** Last seen mode of each markdown leaf, to notice mode toggles */
+	private leafModes = new WeakMap<WorkspaceLeaf, MarkdownMode>();
+
+	/** Position handlers for non-markdown views, by view type */
+	private handlers = new Map<string, ViewPositionHandler>();
+
 	constructor(plugin: Plugin, store: PositionStore, settings: PluginSettings) {
 		this.plugin = plugin;
 		this.store = store;
 		this.settings = settings;
-		this.layoutReady = plugin.app.workspace.layoutReady;
+		this.engine = new PositionEngine(store, settings, systemClock, {
+			saved: (view, position) => this.notify(EVENT_SAVED, view, position),
+			restored: (view, position) => this.notify(EVENT_RESTORED, view, position),
+		}, plugin.app.workspace.layoutReady);
 
 		this.saveDebounced = debounce(this.saveCurrentPosition.bind(this), 100, false);
 		this.onScrollDebounced = debounce(this.handleScroll.bind(this), 100, false);
+
+		for (const handler of BUILTIN_HANDLERS) {
+			this.registerViewHandler(handler);
+		}
+	}
+
+	/**
+	 * Register a position handler for one or more non-markdown view types.
+	 * Replaces any handler previously registered for the same view type.
+	 */
+	registerViewHandler(handler: ViewPositionHandler): void {
+		for (const viewType of handler.viewTypes) {
+			this.handlers.set(viewType, handler);
+		}
+	}
+
+	/**
+	 * Receive every scroll event captured in any window, including scrolling
+	 * in panes the tracker itself ignores.
+	 */
+	addScrollListener(listener: (e: Event) => void): void {
+		this.scrollListeners.push(listener);
 	}
 
 	/**
@@ -87,101 +136,76 @@ export class PositionTracker {
 	register(): void {
 		const app = this.plugin.app;
 
-		// Monkey-patch openLinkText to detect link navigation
-		if (this.settings.respectLinks) {
-			this.plugin.register(
-				around(Workspace.prototype, {
-					openLinkText: (original: Workspace["openLinkText"]) => {
-						return async (
-							linktext: string,
-							sourcePath: string,
-							newLeaf?: boolean,
-							openViewState?: OpenViewState
-						): Promise<void> => {
-							this.linkUsed = true;
-							try {
-								await original.call(
-									app.workspace,
-									linktext,
-									sourcePath,
-									newLeaf,
-									openViewState
-								);
-							} finally {
-								this.linkUsed = false;
-							}
-						};
-					},
-				})
-			);
-		}
+		// Monkey-patch navigation entry points to tell how files are opened
+		this.patchNavigation();
 
 		// File open — restore position
 		this.plugin.registerEvent(
 			app.workspace.on("file-open", () => { this.handleFileOpen(); })
 		);
 
-		// Active leaf change — save outgoing leaf's position, then block saves
-		// so the new file's initial scroll=0 doesn't overwrite anything.
+		// Active leaf change — the engine saves the outgoing leaf's position
+		// and blocks saves for the new one while its file loads
 		this.plugin.registerEvent(
 			app.workspace.on("active-leaf-change", (newLeaf: WorkspaceLeaf | null) => {
-				// Save the PREVIOUS leaf's position before it's gone
 				this.saveDebounced.cancel();
-				if (this.lastLeaf?.view?.file) {
-					this.saveLeafPosition(this.lastLeaf);
-				}
-
-				// Track the new leaf for next switch
-				if (newLeaf?.view && newLeaf.view.getViewType() === "markdown") {
-					this.lastLeaf = newLeaf as FileLeaf;
-				} else {
-					this.lastLeaf = null;
-				}
-
-				this.filesOpening++;
-				window.setTimeout(() => {
-					this.filesOpening = Math.max(0, this.filesOpening - 1);
-				}, 1000);
+				this.engine.onLeafActivated(newLeaf ? this.getView(newLeaf) : null);
 			})
 		);
 
-		// File delete — clean up stored position
+		// Mode toggle — show the same passage in the new mode
+		this.plugin.registerEvent(
+			app.workspace.on("layout-change", () => this.handleModeChange())
+		);
+
+		// File or folder delete — clean up stored positions (all panes)
 		this.plugin.registerEvent(
 			app.vault.on("delete", (file: TAbstractFile) => {
 				this.store.delete(file.path);
 			})
 		);
 
-		// File rename — update stored key
+		// File or folder rename — move stored positions (all panes)
 		this.plugin.registerEvent(
 			app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
 				this.store.rename(oldPath, file.path);
 			})
 		);
 
-		// Layout ready — restore all visible leaves on startup
-		app.workspace.onLayoutReady(() => this.handleLayoutReady());
+		// Layout ready — restore all visible leaves on startup. Leaf history
+		// and the quick switcher can only be patched once they exist.
+		app.workspace.onLayoutReady(() => {
+			this.patchHistory();
+			this.patchQuickSwitcher();
+			this.handleLayoutReady();
+		});
 
-		// Scroll events via DOM — capture phase for all scrollable elements
-		// Uses `document` (not `activeWindow.document`) for mobile compatibility
-		this.plugin.registerDomEvent(
-			document,
-			"scroll",
-			(e: Event) => this.onScrollDebounced(e),
-			true
-		);
+		// Scroll events via DOM — capture phase for all scrollable elements.
+		// Uses `document` (not `activeWindow.document`) for mobile
+		// compatibility, plus the document of every popout window.
+		registerDocuments(this.plugin, (doc) => {
+			this.plugin.registerDomEvent(
+				doc,
+				"scroll",
+				(e: Event) => {
+					for (const listener of this.scrollListeners) listener(e);
+					this.onScrollDebounced(e);
+				},
+				true
+			);
 
-		// Touch end as fallback for mobile — scroll events may not
-		// propagate to document on all mobile platforms
-		this.plugin.registerDomEvent(
-			document,
-			"touchend",
-			() => {
-				// Delay to let scroll momentum settle
-				window.setTimeout(() => this.saveDebounced(), 300);
-			},
-			true
-		);
+			// Touch end as fallback for mobile — scroll events may not
+			// propagate to document on all mobile platforms
+			this.plugin.registerDomEvent(
+				doc,
+				"touchend",
+				() => {
+					// Delay to let scroll momentum settle
+					window.setTimeout(() => this.saveDebounced(), 300);
+				},
+				true
+			);
+		});
 
 		// Editor changes also trigger saves (cursor movement, typing)
 		this.plugin.registerEvent(
@@ -195,92 +219,406 @@ export class PositionTracker {
 	}
 
 	/**
-	 * Handle scroll events.
+	 * Patch link and file opening so file-open knows where a navigation came from.
 	 */
-	private handleScroll(): void {
-		if (!this.layoutReady || this.filesOpening > 0) return;
-		this.saveCurrentPosition();
+	private patchNavigation(): void {
+		const app = this.plugin.app;
+		const start = (source: NavigationSource) => this.engine.startNavigation(source);
+		const end = (pending: PendingNavigation | null) => this.engine.endNavigation(pending);
+		const getActiveSource = () => this.getActiveSource();
+
+		this.plugin.register(
+			around(Workspace.prototype, {
+				openLinkText: (original: Workspace["openLinkText"]) => {
+					return async (
+						linktext: string,
+						sourcePath: string,
+						newLeaf?: boolean,
+						openViewState?: OpenViewState
+					): Promise<void> => {
+						const pending = this.engine.startNavigation(this.getActiveSource() ?? "link");
+						try {
+							await original.call(
+								app.workspace,
+								linktext,
+								sourcePath,
+								newLeaf,
+								openViewState
+							);
+						} finally {
+							this.engine.endNavigation(pending);
+						}
+					};
+				},
+			})
+		);
+
+		// Search results, bookmarks and others open files directly
+		this.plugin.register(
+			around(WorkspaceLeaf.prototype, {
+				openFile: (original: WorkspaceLeaf["openFile"]) => {
+					return async function (
+						this: WorkspaceLeaf,
+						file: TFile,
+						openState?: OpenViewState
+					): Promise<void> {
+						const eState = openState?.eState as { match?: unknown; subpath?: unknown } | undefined;
+						const source = eState?.match ? "search"
+							: eState?.subpath ? "link"
+							: getActiveSource();
+						const pending = source ? start(source) : null;
+						try {
+							await original.call(this, file, openState);
+						} finally {
+							end(pending);
+						}
+					};
+				},
+			})
+		);
 	}
 
 	/**
-	 * Handle file open event. Restores saved position for the opened file.
+	 * Patch the back/forward history shared by all leaves.
 	 */
-	private handleFileOpen(): void {
-		if (!this.layoutReady) {
-			this.filesOpening = Math.max(0, this.filesOpening - 1);
-			return;
-		}
+	private patchHistory(): void {
+		const history = this.plugin.app.workspace.getMostRecentLeaf()?.history;
+		if (!history) return;
+
+		const start = () => this.engine.noteNavigation("history");
+		const mark = (original: () => unknown) => {
+			return function (this: unknown): unknown {
+				start();
+				return original.call(this);
+			};
+		};
+		this.plugin.register(
+			around(Object.getPrototypeOf(history) as typeof history, {
+				back: mark,
+				forward: mark,
+			})
+		);
+	}
 
-		const leaf = this.plugin.app.workspace.getMostRecentLeaf() as FileLeaf;
+	/**
+	 * Patch the quick switcher's choice handler, if the core plugin is available.
+	 */
+	private patchQuickSwitcher(): void {
+		const instance = this.plugin.app.internalPlugins
+			?.getPluginById("switcher")?.instance as { QuickSwitcherModal?: { prototype: object } } | undefined;
+		const prototype = instance?.QuickSwitcherModal?.prototype as
+			{ onChooseSuggestion?: (...args: unknown[]) => unknown } | undefined;
+		if (!prototype?.onChooseSuggestion) return;
+
+		const start = () => this.engine.noteNavigation("quick-switcher");
+		this.plugin.register(
+			around(prototype, {
+				onChooseSuggestion: (original: (...args: unknown[]) => unknown) => {
+					return function (this: unknown, ...args: unknown[]): unknown {
+						start();
+						return original.apply(this, args);
+					};
+				},
+			})
+		);
+	}
 
-		// Don't override position when navigating via heading/block links.
-		// Check only the current leaf's container for flashing spans —
-		// a stale is-flashing in another split should not block restores here.
-		if (this.settings.respectLinks) {
-			const hasFlashing =
-				leaf?.view?.containerEl?.querySelector("span.is-flashing");
-			if (hasFlashing || this.linkUsed) {
-				this.filesOpening = Math.max(0, this.filesOpening - 1);
+	/**
+	 * Get the navigation source implied by the active view, e.g. a click in
+	 * the search pane.
+	 */
+	private getActiveSource(): NavigationSource | null {
+		const view = this.plugin.app.workspace.getActiveViewOfType(View);
+		return view ? VIEW_SOURCES[view.getViewType()] ?? null : null;
+	}
+
+	/**
+	 * Restore the saved position of a leaf (or `position`, if given) right
+	 * away, regardless of how the file was opened. Returns false if nothing
+	 * is saved for it.
+	 */
+	restoreLeaf(leaf: WorkspaceLeaf, position?: SavedPosition): boolean {
+		return this.engine.restore(this.getView(leaf), position);
+	}
+
+	/**
+	 * Open a file in the most recent leaf and restore its position. If the
+	 * note has no saved position that applies to the leaf (e.g. the position
+	 * was saved in another pane), `position` is applied instead.
+	 */
+	async openFile(file: TFile, position?: SavedPosition): Promise<void> {
+		const leaf = this.plugin.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
+		if (position) this.engine.restoreOpened(this.getView(leaf), position);
+	}
+
+	/**
+	 * Move a leaf to the top of its note without overwriting the saved
+	 * position, so it can still be restored later.
+	 */
+	jumpToTop(leaf: WorkspaceLeaf): void {
+		this.engine.jumpToTop(this.getView(leaf));
+	}
+
+	/**
+	 * Move a markdown view to the top or the end of its note.
+	 */
+	private applyEdge(mdView: MarkdownView, edge: "top" | "bottom"): void {
+		if (mdView.getMode() === "source") {
+			const editor = mdView.editor;
+			const pos = edge === "top"
+				? { line: 0, ch: 0 }
+				: { line: editor.lastLine(), ch: editor.getLine(editor.lastLine()).length };
+			editor.setCursor(pos);
+			if (edge === "bottom") {
+				editor.scrollIntoView({ from: pos, to: pos });
 				return;
 			}
 		}
-		if (!leaf?.view?.file) {
-			this.filesOpening = Math.max(0, this.filesOpening - 1);
-			return;
+		const lastLine = mdView.getViewData().split("\n").length - 1;
+		mdView.currentMode.applyScroll(edge === "top" ? 0 : lastLine);
+	}
+
+	/**
+	 * Get the store key positions of a leaf are saved under: per pane or
+	 * per note, depending on settings.
+	 */
+	getLeafKey(leaf: WorkspaceLeaf): string | null {
+		return this.engine.getFileKey(this.getView(leaf));
+	}
+
+	/**
+	 * Get the saved position of the note shown in a leaf.
+	 */
+	getLeafPosition(leaf: WorkspaceLeaf): SavedPosition | undefined {
+		return this.engine.getSavedPosition(this.getView(leaf));
+	}
+
+	/**
+	 * Get the position history of a leaf's note, oldest first.
+	 */
+	getHistory(leaf: WorkspaceLeaf): SavedPosition[] {
+		return this.engine.getHistory(this.getView(leaf));
+	}
+
+	/**
+	 * Step back (-1) or forward (1) through a leaf's position history.
+	 * Returns false if there is no entry in that direction.
+	 */
+	navigateHistory(leaf: WorkspaceLeaf, step: -1 | 1): boolean {
+		this.saveDebounced.cancel();
+		return this.engine.navigateHistory(this.getView(leaf), step);
+	}
+
+	/**
+	 * Move a leaf to an entry of its position history.
+	 * Returns false if the entry doesn't exist.
+	 */
+	goToHistory(leaf: WorkspaceLeaf, index: number): boolean {
+		this.saveDebounced.cancel();
+		return this.engine.goToHistory(this.getView(leaf), index);
+	}
+
+	/**
+	 * Pin or unpin a leaf's note so its position is never evicted or expired.
+	 * The current position is saved first. Returns false if there is none.
+	 */
+	setPinned(leaf: WorkspaceLeaf, pinned: boolean): boolean {
+		this.saveDebounced.cancel();
+		return this.engine.setPinned(this.getView(leaf), pinned);
+	}
+
+	/**
+	 * Whether a leaf's note is pinned.
+	 */
+	isPinned(leaf: WorkspaceLeaf): boolean {
+		return this.engine.isPinned(this.getView(leaf));
+	}
+
+	/**
+	 * Add a named mark at a leaf's current position, replacing any mark of
+	 * the same name. Returns false if the leaf has no trackable position.
+	 */
+	addMark(leaf: WorkspaceLeaf, name: string): boolean {
+		return this.engine.addMark(this.getView(leaf), name);
+	}
+
+	/**
+	 * Get the named marks of a leaf's note.
+	 */
+	getMarks(leaf: WorkspaceLeaf): NamedMark[] {
+		return this.engine.getMarks(this.getView(leaf));
+	}
+
+	/**
+	 * Move a leaf to one of its note's marks.
+	 */
+	goToMark(leaf: WorkspaceLeaf, mark: NamedMark): void {
+		this.engine.goToMark(this.getView(leaf), mark);
+	}
+
+	/**
+	 * Open a file in the most recent leaf at one of its marks.
+	 */
+	async openMark(file: TFile, mark: NamedMark): Promise<void> {
+		const leaf = this.plugin.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
+		this.restoreLeaf(leaf, mark);
+	}
+
+	/**
+	 * Save the position of a leaf immediately. Returns false if the leaf
+	 * has no trackable position.
+	 */
+	saveLeaf(leaf: WorkspaceLeaf): boolean {
+		this.saveDebounced.cancel();
+		return this.engine.save(this.getView(leaf));
+	}
+
+	/**
+	 * Get the engine's adapter for a leaf. It reads the leaf's current view
+	 * on every call, so it stays valid while the leaf opens other files.
+	 */
+	private getView(leaf: WorkspaceLeaf): ViewAdapter {
+		let view = this.views.get(leaf);
+		if (!view) {
+			view = this.createView(leaf);
+			this.views.set(leaf, view);
+			this.leaves.set(view, leaf);
 		}
+		return view;
+	}
+
+	private createView(leaf: WorkspaceLeaf): ViewAdapter {
+		const app = this.plugin.app;
+		const fileView = () => leaf.view instanceof FileView ? leaf.view : null;
+		return {
+			leafId: leaf.id,
+			get path() {
+				return fileView()?.file?.path ?? null;
+			},
+			isTrackable: () => this.isTrackable(leaf.view),
+			getBehaviour: () => {
+				const file = fileView()?.file;
+				return file ? getRestoreBehaviour(app, file, this.settings) : "restore";
+			},
+			capture: () => {
+				const view = fileView();
+				return view ? this.capturePosition(view) : null;
+			},
+			measureProgress: (position) => {
+				const view = fileView();
+				return view ? this.measureProgress(view, position) : null;
+			},
+			isWithinFirstScreen: (position) => {
+				const view = fileView();
+				return !!view && this.isWithinFirstScreen(view, position);
+			},
+			restore: (position, restoreCursor) => {
+				const view = fileView();
+				return view
+					? this.runRestore(leaf, this.positionStep(view, position, restoreCursor))
+					: Promise.resolve(false);
+			},
+			restoreEdge: (edge) => {
+				if (leaf.view.getViewType() !== "markdown") return null;
+				const mdView = leaf.view as MarkdownView;
+				return this.runRestore(leaf, {
+					apply: () => this.applyEdge(mdView, edge),
+					isSettled: () => true,
+				});
+			},
+		};
+	}
+
+	/**
+	 * Trigger one of the plugin's workspace events for the leaf of an adapter.
+	 */
+	private notify(name: typeof EVENT_SAVED | typeof EVENT_RESTORED, view: ViewAdapter, position: SavedPosition): void {
+		const leaf = this.leaves.get(view);
+		const file = leaf?.view instanceof FileView ? leaf.view.file : null;
+		if (leaf && file) this.plugin.app.workspace.trigger(name, file, position, leaf);
+	}
+
+	/**
+	 * Move a leaf with a restore transaction, replacing any restore already
+	 * in flight for it. Resolves to whether the target was reached.
+	 */
+	private runRestore(leaf: WorkspaceLeaf, step: RestoreStep): Promise<boolean> {
+		this.saveDebounced.cancel();
+		this.restoring.get(leaf)?.cancel();
+
+		const transaction = new RestoreTransaction(leaf, step);
+		this.restoring.set(leaf, transaction);
+		return transaction.run().finally(() => {
+			if (this.restoring.get(leaf) === transaction) this.restoring.delete(leaf);
+		});
+	}
+
+	/**
+	 * Handle scroll events.
+	 */
+	private handleScroll(): void {
+		this.saveCurrentPosition();
+	}
+
+	/**
+	 * Handle a possible mode toggle of the active leaf: the new mode keeps
+	 * its own pixel offset, so the engine moves it to the passage the old
+	 * mode showed.
+	 */
+	private handleModeChange(): void {
+		const leaf = this.plugin.app.workspace.getMostRecentLeaf();
+		if (!leaf || leaf.view.getViewType() !== "markdown") return;
 
-		this.restorePosition(leaf);
+		const mode = (leaf.view as MarkdownView).getMode();
+		const previous = this.leafModes.get(leaf);
+		this.leafModes.set(leaf, mode);
+		if (previous && previous !== mode) this.engine.onModeChange(this.getView(leaf));
+	}
+
+	/**
+	 * Handle file open event. The engine restores the opened file's position.
+	 */
+	private handleFileOpen(): void {
+		const leaf = this.plugin.app.workspace.getMostRecentLeaf();
+		if (leaf) this.recordMode(leaf);
+
+		// Check only the current leaf's container for flashing spans —
+		// a stale is-flashing in another split should not block restores here.
+		const flashing = !!leaf?.view?.containerEl?.querySelector("span.is-flashing");
+		this.engine.onFileOpen(leaf ? this.getView(leaf) : null, flashing);
 	}
 
 	/**
 	 * Handle layout ready — restore all visible leaves on startup.
 	 */
 	private handleLayoutReady(): void {
-		if (this.layoutReady) return;
-
+		const views: ViewAdapter[] = [];
 		this.plugin.app.workspace.iterateRootLeaves((leaf: WorkspaceLeaf) => {
 			if (leaf.view instanceof FileView) {
-				this.restorePosition(leaf as FileLeaf);
+				this.recordMode(leaf);
+				views.push(this.getView(leaf));
 			}
 		});
-
-		this.layoutReady = true;
+		this.engine.onLayoutReady(views);
 	}
 
 	/**
-	 * Save position for a specific leaf (used when switching away).
+	 * Remember the mode a markdown leaf opened in, to notice later toggles.
 	 */
-	private saveLeafPosition(leaf: FileLeaf): void {
-		if (!leaf?.view?.file) return;
-		const key = this.getFileKey(leaf.view);
-		if (!key) return;
-		const position = this.capturePosition(leaf.view);
-		if (position) {
-			this.store.set(key, position);
+	private recordMode(leaf: WorkspaceLeaf): void {
+		if (leaf.view.getViewType() === "markdown") {
+			this.leafModes.set(leaf, (leaf.view as MarkdownView).getMode());
 		}
 	}
 
 	/**
-	 * Save the current position of the active markdown view.
+	 * Save the current position of the active view.
 	 */
 	private saveCurrentPosition(): void {
-		if (!this.layoutReady || this.filesOpening > 0) return;
-
 		const leaf = this.plugin.app.workspace.getMostRecentLeaf();
-		if (!leaf?.view || leaf.view.getViewType() !== "markdown") return;
-
-		// Keep lastLeaf in sync
-		this.lastLeaf = leaf as FileLeaf;
-
-		const view = leaf.view as FileView;
-		if (!view.file) return;
-
-		const key = this.getFileKey(view);
-		if (!key) return;
-		const position = this.capturePosition(view);
-		if (position) {
-			this.store.set(key, position);
-		}
+		this.engine.onScroll(leaf ? this.getView(leaf) : null);
 	}
 
 	/**
@@ -296,146 +634,277 @@ export class PositionTracker {
 				const anchor = mdView.editor.getCursor("anchor");
 				const scrollInfo = mdView.editor.getScrollInfo();
 				const ephemeral = mdView.getEphemeralState() as { scroll?: number };
+				const selections = mdView.editor.listSelections();
 
 				return {
 					timestamp,
+					mode: "source",
 					scroll: ephemeral?.scroll,
 					scrollTop: scrollInfo?.top,
 					cursor: {
 						from: { line: anchor.line, ch: anchor.ch },
 						to: { line: cursor.line, ch: cursor.ch },
 					},
+					selections: selections.length > 1
+						? selections.map((s) => ({
+							from: { line: s.anchor.line, ch: s.anchor.ch },
+							to: { line: s.head.line, ch: s.head.ch },
+						}))
+						: undefined,
+					folds: this.captureFolds(mdView),
+					anchor: this.captureAnchor(mdView),
 				};
 			} else {
-				// Reading mode
+				// Reading mode — the line-based scroll lets editing mode
+				// restore the same passage
 				const previewEl = view.containerEl.querySelector(".markdown-preview-view");
 				if (previewEl) {
 					return {
 						timestamp,
+						mode: "preview",
+						scroll: mdView.currentMode.getScroll(),
 						scrollTop: previewEl.scrollTop,
+						folds: this.captureFolds(mdView),
+						anchor: this.captureAnchor(mdView),
 					};
 				}
 			}
 		}
 
+		const handler = this.handlers.get(view.getViewType());
+		if (handler) {
+			const data = handler.capture(view);
+			if (data) {
+				return { timestamp, view: { type: view.getViewType(), data } };
+			}
+		}
+
 		return null;
 	}
 
 	/**
-	 * Restore position for a leaf. Waits for the leaf to finish loading,
-	 * applies the position, then re-saves it to prevent overwrite during
-	 * the scroll settle period.
+	 * Measure reading progress for a freshly captured position. A markdown
+	 * view scrolled to the very bottom counts as fully read, even though its
+	 * top visible line is short of the last line.
 	 */
-	private restorePosition(leaf: FileLeaf): void {
-		if (!leaf?.view?.file) {
-			this.filesOpening = Math.max(0, this.filesOpening - 1);
-			return;
-		}
+	private measureProgress(view: FileView, position: SavedPosition): number | null {
+		if (view.getViewType() !== "markdown") return getProgress(position);
 
-		const key = this.getFileKey(leaf.view);
-		if (!key) {
-			this.filesOpening = Math.max(0, this.filesOpening - 1);
-			return;
-		}
-		const saved = this.store.get(key);
-		if (!saved) {
-			this.filesOpening = Math.max(0, this.filesOpening - 1);
-			return;
+		const mdView = view as MarkdownView;
+		const scroller = this.getScroller(mdView);
+		if (scroller && scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 2) {
+			return 1;
 		}
+		return getProgress(position, mdView.getViewData());
+	}
 
-		// Wait for the leaf to finish loading, then restore
-		let attempts = 0;
-		const maxAttempts = 50;
-		const tryRestore = () => {
-			if (leaf.working && attempts++ < maxAttempts) {
-				window.requestAnimationFrame(tryRestore);
-				return;
-			}
+	/**
+	 * Whether a freshly captured markdown position is scrolled less than one
+	 * screen down, with no cursor worth restoring elsewhere.
+	 */
+	private isWithinFirstScreen(view: FileView, position: SavedPosition): boolean {
+		if (view.getViewType() !== "markdown") return false;
+		const scroller = this.getScroller(view as MarkdownView);
+		if (!scroller || scroller.scrollTop >= scroller.clientHeight) return false;
+
+		const cursor = position.cursor?.to;
+		return !this.settings.restoreCursor || !cursor || (cursor.line === 0 && cursor.ch === 0);
+	}
+
+	/**
+	 * Get the scrolling element of a markdown view in its current mode.
+	 */
+	private getScroller(mdView: MarkdownView): Element | null {
+		return mdView.containerEl.querySelector(
+			mdView.getMode() === "source" ? ".cm-scroller" : ".markdown-preview-view"
+		);
+	}
+
+	/**
+	 * Whether positions can be tracked for a view: markdown, or any
+	 * file view with a registered handler.
+	 */
+	private isTrackable(view: WorkspaceLeaf["view"]): boolean {
+		const viewType = view.getViewType();
+		return viewType === "markdown" ||
+			(view instanceof FileView && this.handlers.has(viewType));
+	}
+
+	/**
+	 * Whether a view has loaded enough for its position to be applied.
+	 */
+	private isViewReady(view: FileView): boolean {
+		return this.handlers.get(view.getViewType())?.isReady?.(view) ?? true;
+	}
+
+	/**
+	 * Capture the folded ranges of a markdown view, if there are any.
+	 */
+	private captureFolds(mdView: MarkdownView): SavedPosition["folds"] {
+		const folds = mdView.currentMode.getFoldInfo?.()?.folds;
+		return folds?.length ? folds.map((fold) => ({ from: fold.from, to: fold.to })) : undefined;
+	}
+
+	/**
+	 * Re-apply the folds saved with a position, shifted by `delta` lines.
+	 * Positions saved without folds leave the view's folds alone.
+	 */
+	private applyFolds(mdView: MarkdownView, saved: SavedPosition, delta: number): void {
+		if (!saved.folds || !mdView.currentMode.applyFoldInfo) return;
+		const lines = mdView.editor.lineCount();
+		const folds = saved.folds
+			.map((fold) => ({ from: fold.from + delta, to: fold.to + delta }))
+			.filter((fold) => fold.from >= 0 && fold.to < lines);
+		mdView.currentMode.applyFoldInfo({ folds, lines });
+	}
+
+	/**
+	 * Restore every saved selection, shifted by `delta` lines, keeping the
+	 * saved cursor as the main selection.
+	 */
+	private applySelections(mdView: MarkdownView, saved: SavedPosition, delta: number): void {
+		const cursor = saved.cursor;
+		const ranges = saved.selections ?? (cursor ? [cursor] : []);
+		if (!ranges.length) return;
+
+		const main = cursor
+			? ranges.findIndex((range) =>
+				range.from.line === cursor.from.line && range.from.ch === cursor.from.ch &&
+				range.to.line === cursor.to.line && range.to.ch === cursor.to.ch)
+			: -1;
+		mdView.editor.setSelections(
+			ranges.map((range) => ({
+				anchor: this.shiftPosition(mdView, range.from, delta),
+				head: this.shiftPosition(mdView, range.to, delta),
+			})),
+			main === -1 ? undefined : main
+		);
+	}
+
+	/**
+	 * Capture a content anchor for the top visible line of a markdown view.
+	 */
+	private captureAnchor(mdView: MarkdownView): SavedPosition["anchor"] {
+		const topLine = Math.floor(mdView.currentMode.getScroll() ?? 0);
+		return createAnchor(mdView.getViewData(), topLine);
+	}
+
+	/**
+	 * Work out how many lines the saved position's content has moved since
+	 * it was captured. Returns 0 when there is no anchor, the content hasn't
+	 * moved, or the anchor can't be found (so the raw position is used).
+	 */
+	private getAnchorDelta(mdView: MarkdownView, saved: SavedPosition): number {
+		if (!saved.anchor) return 0;
+		const line = resolveAnchor(mdView.getViewData(), saved.anchor);
+		return line === null ? 0 : line - saved.anchor.line;
+	}
 
-			window.setTimeout(() => {
-				this.applyPosition(leaf.view, saved);
-				// Keep saves blocked while scroll settles (the restore triggers
-				// scroll events we don't want to capture as "new" positions)
-				window.setTimeout(() => {
-					this.filesOpening = Math.max(0, this.filesOpening - 1);
-				}, 500);
-			}, this.settings.restoreDelay);
+	/**
+	 * Shift an editor position by a number of lines, clamped to the document.
+	 */
+	private shiftPosition(mdView: MarkdownView, pos: EditorPosition, delta: number): EditorPosition {
+		if (delta === 0) return pos;
+		const line = Math.max(0, Math.min(pos.line + delta, mdView.editor.lastLine()));
+		return { line, ch: Math.min(pos.ch, mdView.editor.getLine(line).length) };
+	}
+
+	/**
+	 * Build the restore step for a saved position: apply it, falling back to
+	 * other mechanisms on retries, and check that the view's top line
+	 * reached the target.
+	 */
+	private positionStep(view: FileView, saved: SavedPosition, restoreCursor = this.settings.restoreCursor): RestoreStep {
+		return {
+			apply: (attempt) => this.applyPosition(view, saved, restoreCursor, attempt > 0),
+			isSettled: () => this.isAtPosition(view, saved),
+			isReady: () => this.isViewReady(view),
 		};
+	}
 
-		tryRestore();
+	/**
+	 * Whether a markdown view shows the saved position's top line, or is
+	 * scrolled as far as it goes towards it. Other views can't be checked
+	 * and count as settled.
+	 */
+	private isAtPosition(view: FileView, saved: SavedPosition): boolean {
+		if (view.getViewType() !== "markdown") return true;
+		const mdView = view as MarkdownView;
+		const topLine = saved.scroll ?? saved.anchor?.line;
+		if (topLine === undefined) return true;
+
+		const target = Math.max(0, topLine + this.getAnchorDelta(mdView, saved));
+		const current = mdView.currentMode.getScroll();
+		if (Math.abs(current - target) <= 1) return true;
+
+		// The note may be too short to put the target line at the top
+		const scroller = this.getScroller(mdView);
+		return !!scroller && current < target &&
+			scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 2;
+	}
+
+	/**
+	 * Mode a markdown position was captured in; older positions without a
+	 * recorded mode only had a line-based scroll when captured in source mode.
+	 */
+	private getCapturedMode(saved: SavedPosition): MarkdownMode {
+		return saved.mode ?? (saved.scroll !== undefined ? "source" : "preview");
 	}
 
 	/**
 	 * Apply a saved position to a view.
 	 *
-	 * Uses setEphemeralState({ scroll }) as the primary restore mechanism,
-	 * with editor.scrollTo(scrollTop) as fallback for mobile where
-	 * ephemeral state may not work reliably.
+	 * Uses setEphemeralState({ scroll }) as the primary restore mechanism.
+	 * On a `retry` (the first apply didn't reach the target), the cursor is
+	 * left alone and editor.scrollTo(scrollTop) is used where the pixel
+	 * offset applies, for mobile where ephemeral state may not work reliably.
+	 *
+	 * Saved folds are re-applied first, then the selections and scroll.
+	 * If the note was edited since the position was saved, the content anchor
+	 * is re-located and folds, selections and scroll are shifted by the same
+	 * number of lines.
+	 * Pixel offsets are only used when the content hasn't moved and the view
+	 * is in the mode they were measured in; otherwise the top visible line is
+	 * restored, which works the same in editing and reading mode.
 	 */
-	private applyPosition(view: FileView, saved: SavedPosition): void {
+	private applyPosition(
+		view: FileView,
+		saved: SavedPosition,
+		restoreCursor = this.settings.restoreCursor,
+		retry = false
+	): void {
 		if (view.getViewType() === "markdown") {
 			const mdView = view as MarkdownView;
+			const delta = this.getAnchorDelta(mdView, saved);
+			const samePixels = delta === 0 && saved.scrollTop !== undefined &&
+				this.getCapturedMode(saved) === mdView.getMode();
+			const topLine = saved.scroll ?? saved.anchor?.line;
+
+			// Folds change the layout the scroll offset was measured in
+			if (!retry) this.applyFolds(mdView, saved, delta);
+
 			if (mdView.getMode() === "source") {
-				if (saved.cursor && this.settings.restoreCursor) {
-					mdView.editor.setSelection(saved.cursor.from, saved.cursor.to);
-				}
-				if (saved.scroll !== undefined) {
-					mdView.setEphemeralState({ scroll: saved.scroll });
-				}
-				// Fallback: use scrollTo if ephemeral state didn't work
-				// (common on mobile). Delay slightly to let ephemeral settle.
-				if (saved.scrollTop !== undefined) {
-					window.setTimeout(() => {
-						const currentTop = mdView.editor.getScrollInfo()?.top ?? 0;
-						// Only apply fallback if ephemeral state didn't move us
-						if (saved.scroll === undefined || Math.abs(currentTop) < 5) {
-							mdView.editor.scrollTo(0, saved.scrollTop as number);
-						}
-					}, 50);
+				if (restoreCursor && !retry) this.applySelections(mdView, saved, delta);
+				if (retry && samePixels) {
+					mdView.editor.scrollTo(0, saved.scrollTop as number);
+				} else if (topLine !== undefined) {
+					mdView.setEphemeralState({ scroll: Math.max(0, topLine + delta) });
 				}
 			} else {
 				// Reading mode
-				if (saved.scrollTop !== undefined) {
-					const previewEl = view.containerEl.querySelector(
-						".markdown-preview-view"
-					);
-					if (previewEl) {
-						previewEl.scrollTop = saved.scrollTop;
-					}
+				const previewEl = view.containerEl.querySelector(".markdown-preview-view");
+				if (samePixels && previewEl) {
+					previewEl.scrollTop = saved.scrollTop as number;
+				} else if (topLine !== undefined) {
+					mdView.previewMode.applyScroll(Math.max(0, topLine + delta));
 				}
 			}
+			return;
 		}
-	}
-
-	/**
-	 * Generate a unique key for a file view, incorporating split position
-	 * so the same file in different tabs gets independent tracking.
-	 */
-	private getFileKey(view: FileView): string | null {
-		if (!view.file) return null;
-		const filePath = view.file.path;
-		const splitId = this.getSplitId(view.leaf);
-		return splitId ? `${filePath}#${splitId}` : filePath;
-	}
-
-	/**
-	 * Get a string ID representing the split position of a leaf.
-	 * Returns empty string for the primary (zero-indexed) leaf.
-	 */
-	private getSplitId(leaf: WorkspaceLeaf): string {
-		if (!leaf?.parent?.parent) return "";
 
-		const path: number[] = [];
-		let current: Record<string, unknown> = leaf.parent as unknown as Record<string, unknown>;
-
-		while (current?.parent) {
-			const parent = current.parent as Record<string, unknown>;
-			const idx = (parent.children as unknown[])?.indexOf(current) ?? 0;
-			path.unshift(idx);
-			current = parent;
+		const handler = this.handlers.get(view.getViewType());
+		if (handler && saved.view?.type === view.getViewType()) {
+			handler.apply(view, saved.view.data);
 		}
-
-		if (path.every((i) => i === 0)) return "";
-		return path.join("-");
 	}
 }
@@ -0,0 +1,146 @@
+import { moment } from "obsidian";
+import { SavedPosition } from "./types";
+import { isWithin, makeKey, parseKey } from "./keys";
+import { getProgress } from "./progress";
+import { validatePosition } from "./format";
+
+/** Identifies an export file */
+export const EXPORT_FORMAT = "remember-scroll-position-export";
+
+/** Current export format version */
+export const EXPORT_VERSION = 1;
+
+/**
+ * Contents of an exported positions file.
+ */
+export interface PositionsExport {
+	format: typeof EXPORT_FORMAT;
+	version: number;
+	/** ISO timestamp of the export */
+	exported: string;
+	/** Folder the export was limited to, if any */
+	folder?: string;
+	positions: Record<string, SavedPosition>;
+}
+
+/** How imported positions are combined with existing ones */
+export type ImportMode = "overwrite" | "newest" | "skip";
+
+/** Maps a path prefix from the exporting vault to one in this vault */
+export interface PathRemap {
+	from: string;
+	to: string;
+}
+
+/**
+ * Pick out the entries to export, optionally limited to a folder. Only
+ * note-level positions are exported: pane positions are keyed by leaf ids
+ * that mean nothing outside this workspace.
+ */
+function selectEntries(entries: [string, SavedPosition][], folder?: string): [string, SavedPosition][] {
+	return entries.filter(([key]) => !parseKey(key).split && (!folder || isWithin(key, folder)));
+}
+
+/**
+ * Build a JSON export of positions, optionally limited to a folder.
+ */
+export function buildJsonExport(entries: [string, SavedPosition][], folder?: string): string {
+	const data: PositionsExport = {
+		format: EXPORT_FORMAT,
+		version: EXPORT_VERSION,
+		exported: new Date().toISOString(),
+		positions: Object.fromEntries(selectEntries(entries, folder)),
+	};
+	if (folder) data.folder = folder;
+	return JSON.stringify(data, null, "\t");
+}
+
+/**
+ * Build a human-readable Markdown report of positions, newest first.
+ */
+export function buildMarkdownReport(entries: [string, SavedPosition][], folder?: string): string {
+	const rows = selectEntries(entries, folder)
+		.sort(([, a], [, b]) => b.timestamp - a.timestamp)
+		.map(([key, position]) => {
+			const line = position.cursor?.to.line ?? position.anchor?.line;
+			const progress = getProgress(position);
+			return [
+				`[[${key}]]`,
+				line !== undefined ? String(line + 1) : "",
+				progress !== null ? `${Math.round(progress * 100)}%` : "",
+				position.finished ? "✓" : "",
+				moment(position.timestamp).format("YYYY-MM-DD HH:mm"),
+			].map((cell) => cell.replace(/\|/g, "\\|")).join(" | ");
+		});
+
+	return [
+		`# Saved positions${folder ? ` in ${folder}` : ""}`,
+		"",
+		`Exported ${moment().format("YYYY-MM-DD HH:mm")} · ${rows.length} position${rows.length === 1 ? "" : "s"}`,
+		"",
+		"| Note | Line | Progress | Finished | Last read |",
+		"| --- | --- | --- | --- | --- |",
+		...rows.map((row) => `| ${row} |`),
+		"",
+	].join("\n");
+}
+
+/**
+ * Parse an exported positions file. Throws an Error with a user-facing
+ * message if the file isn't a valid export.
+ */
+export function parseExport(text: string): PositionsExport {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("File is not valid JSON.");
+	}
+
+	const exported = data as Partial<PositionsExport> | null;
+	if (!exported || exported.format !== EXPORT_FORMAT) {
+		throw new Error("File is not a Remember Scroll Position export.");
+	}
+	if (typeof exported.version !== "number" || exported.version > EXPORT_VERSION) {
+		throw new Error("Export was made by a newer version of the plugin.");
+	}
+	if (!exported.positions || typeof exported.positions !== "object") {
+		throw new Error("Export contains no positions.");
+	}
+
+	// Drop anything that isn't recognisably a position, and malformed fields
+	// of those that are, as when loading the positions file. Pane positions
+	// in older exports belong to the other workspace's panes.
+	const positions: Record<string, SavedPosition> = {};
+	for (const [key, value] of Object.entries(exported.positions)) {
+		const position = validatePosition(value);
+		if (position && !parseKey(key).split) positions[key] = position;
+	}
+	return { ...exported, positions } as PositionsExport;
+}
+
+/**
+ * Parse path remaps written one per line as "old/path => new/path".
+ */
+export function parseRemaps(text: string): PathRemap[] {
+	const remaps: PathRemap[] = [];
+	for (const line of text.split("\n")) {
+		const [from, to] = line.split("=>").map((part) => part.trim().replace(/^\/+|\/+$/g, ""));
+		if (from && to !== undefined) remaps.push({ from, to });
+	}
+	return remaps;
+}
+
+/**
+ * Rewrite a key's path with the first matching remap.
+ */
+export function remapKey(key: string, remaps: PathRemap[]): string {
+	const { path, split } = parseKey(key);
+	for (const { from, to } of remaps) {
+		if (isWithin(path, from)) {
+			const rest = path.substring(from.length).replace(/^\//, "");
+			return makeKey([to, rest].filter(Boolean).join("/"), split);
+		}
+	}
+	return key;
+}
@@ -6,12 +6,138 @@ import { EditorRange } from "obsidian";
 export interface SavedPosition {
 	/** Unix timestamp of when this position was last updated */
 	timestamp: number;
-	/** Scroll position (Obsidian's internal scroll value for source mode) */
+	/**
+	 * Scroll position as Obsidian's line-based scroll value (top visible
+	 * source line). Means the same in every mode.
+	 */
 	scroll?: number;
-	/** Raw scrollTop for reading mode / non-markdown views */
+	/** Raw pixel scrollTop, only meaningful in the mode it was measured in */
 	scrollTop?: number;
-	/** Cursor selection range */
+	/**
+	 * Mode a markdown position was captured in. Older positions don't have
+	 * it: those with `scroll` came from source mode, others from reading mode.
+	 */
+	mode?: MarkdownMode;
+	/** Cursor selection range; the main selection when there are several */
 	cursor?: EditorRange;
+	/** Every selection (anchor → head), main one included, when there are several */
+	selections?: EditorRange[];
+	/** Folded headings and lists, re-applied before scrolling */
+	folds?: FoldRange[];
+	/** Content anchor for the top visible line, used to re-locate it after external edits */
+	anchor?: ContentAnchor;
+	/** View-specific state for non-markdown views (PDF page, canvas viewport, ...) */
+	view?: ViewPosition;
+	/** Reading progress (0–1) at this position */
+	progress?: number;
+	/** Furthest reading progress (0–1) reached in this note */
+	maxProgress?: number;
+	/** Whether the end of the note has been reached */
+	finished?: boolean;
+	/** Recent distinct positions, oldest first (entries have no history of their own) */
+	history?: SavedPosition[];
+	/** Whether the note is pinned: never evicted or expired */
+	pinned?: boolean;
+	/** Named marks the user placed in the note (note-level positions only) */
+	marks?: NamedMark[];
+}
+
+/**
+ * A folded heading or list, from its first to its last line.
+ */
+export interface FoldRange {
+	from: number;
+	to: number;
+}
+
+/**
+ * Markdown view mode: editing (source and live preview) or reading.
+ */
+export type MarkdownMode = "source" | "preview";
+
+/**
+ * A position the user saved under a name, e.g. "definitions".
+ * Marks have no history or marks of their own.
+ */
+export interface NamedMark extends SavedPosition {
+	name: string;
+}
+
+/**
+ * Plain values captured by a view position handler.
+ */
+export type ViewPositionData = Record<string, string | number | boolean>;
+
+/**
+ * Position data for a non-markdown view, tagged with the view type that produced it.
+ */
+export interface ViewPosition {
+	/** View type the data was captured from (e.g. "pdf", "canvas") */
+	type: string;
+	/** Handler-specific data */
+	data: ViewPositionData;
+}
+
+/**
+ * Identifies a line by its surrounding content rather than its line number,
+ * so a position can be found again after the note is edited elsewhere.
+ */
+export interface ContentAnchor {
+	/** Line number the anchor was captured at */
+	line: number;
+	/** Heading path (outermost first) of the section containing the line */
+	headings: string[];
+	/** Offset of the line from the start of its section */
+	sectionOffset: number;
+	/** Hash of the line and its neighbours */
+	fingerprint: string;
+	/** Block ID found in the line's paragraph, if any */
+	blockId?: string;
+	/** Lines between the anchor line and the block ID */
+	blockOffset?: number;
+}
+
+/**
+ * What to do with a note's position when it is opened.
+ * - "restore": restore the saved position (default)
+ * - "top": always open at the top
+ * - "bottom": always open at the end (journals, logs)
+ * - "scroll-only": restore the scroll position but not the cursor
+ * - "ignore": never save or restore positions for the note
+ */
+export type RestoreBehaviour = "restore" | "top" | "bottom" | "scroll-only" | "ignore";
+
+/**
+ * How a file was navigated to.
+ */
+export type NavigationSource =
+	| "link"
+	| "history"
+	| "search"
+	| "quick-switcher"
+	| "graph"
+	| "bookmark"
+	| "other";
+
+/**
+ * What to do after navigating to a file from a given source:
+ * restore the saved position, or leave the position the navigation chose
+ * (the search match, the history entry's position, the link target).
+ */
+export type NavigationPolicy = "restore" | "skip";
+
+/**
+ * A rule choosing the restore behaviour for matching notes.
+ */
+export interface RestoreRule {
+	/** What the pattern is matched against */
+	match: "folder" | "tag" | "frontmatter";
+	/**
+	 * Folder path or glob (e.g. "Journal", "Projects/**"), tag (e.g. "#reference"),
+	 * or frontmatter property, optionally with a value (e.g. "type=log")
+	 */
+	pattern: string;
+	behaviour: RestoreBehaviour;
 }
 
 /**
@@ -26,10 +152,40 @@ export interface PluginSettings {
 	persistToDisk: boolean;
 	/** Path to the persistence file */
 	filePath: string;
-	/** Delay in ms before restoring position after file open */
-	restoreDelay: number;
+	/** Where positions are persisted */
+	storageBackend: "file" | "indexeddb" | "frontmatter";
+	/** Frontmatter property used by the frontmatter backend */
+	frontmatterProperty: string;
+	/** Store note paths in the positions file as salted hashes */
+	hashPaths: boolean;
+	/** Folder globs or paths that are never tracked or stored */
+	excludedFolders: string[];
+	/** Merge positions from other devices' positions files */
+	syncAcrossDevices: boolean;
+	/** How to resolve a note saved on this device and on another device */
+	syncPolicy: "newest" | "local" | "ask";
+	/** Track one position per note, or one per pane (leaf) */
+	positionScope: "note" | "pane";
+	/** Forget positions not updated for this many days (0 = never) */
+	expireAfterDays: number;
+	/** Don't keep positions within the first screen of a note */
+	forgetFirstScreen: boolean;
+	/** Per-folder/tag/frontmatter restore rules, first match wins */
+	rules: RestoreRule[];
+	/** Per-source navigation policies (links are governed by respectLinks) */
+	navigationPolicies: Record<Exclude<NavigationSource, "link">, NavigationPolicy>;
 	/** Respect heading/block link navigation (don't override) */
 	respectLinks: boolean;
+	/** Remember scroll inside hover previews and embeds for the session */
+	rememberEmbeds: boolean;
+	/** Remember scroll in the file explorer, search, backlinks and outline for the session */
+	rememberPanes: boolean;
+	/** Number of recent positions to keep per note (0 = no history) */
+	historySize: number;
+	/** Show reading progress of the active note in the status bar */
+	showStatusBar: boolean;
+	/** How to show reading progress in the file explorer */
+	explorerProgress: "off" | "badge" | "bar";
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
@@ -37,6 +193,28 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 	maxPositions: 500,
 	persistToDisk: true,
 	filePath: "",
-	restoreDelay: 50,
+	storageBackend: "file",
+	frontmatterProperty: "reading-position",
+	hashPaths: false,
+	excludedFolders: [],
+	syncAcrossDevices: false,
+	syncPolicy: "newest",
+	positionScope: "pane",
+	expireAfterDays: 0,
+	forgetFirstScreen: false,
+	rules: [],
+	navigationPolicies: {
+		history: "skip",
+		search: "skip",
+		"quick-switcher": "restore",
+		graph: "restore",
+		bookmark: "restore",
+		other: "restore",
+	},
 	respectLinks: true,
+	rememberEmbeds: false,
+	rememberPanes: false,
+	historySize: 10,
+	showStatusBar: true,
+	explorerProgress: "off",
 };
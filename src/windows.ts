@@ -0,0 +1,32 @@
+import { Plugin, WorkspaceLeaf, WorkspaceWindow } from "obsidian";
+
+/**
+ * Call `attach` for the main window's document and for the document of
+ * every popout window, including popouts opened later. Each document is
+ * attached once.
+ *
+ * Popouts restored with the layout may open before the plugin loads, so
+ * the documents of existing leaves are picked up once the layout is ready.
+ */
+export function registerDocuments(plugin: Plugin, attach: (doc: Document) => void): void {
+	const attached = new WeakSet<Document>();
+	const attachOnce = (doc: Document) => {
+		if (attached.has(doc)) return;
+		attached.add(doc);
+		attach(doc);
+	};
+
+	attachOnce(document);
+
+	plugin.registerEvent(
+		plugin.app.workspace.on("window-open", (_win: WorkspaceWindow, window: Window) => {
+			attachOnce(window.document);
+		})
+	);
+
+	plugin.app.workspace.onLayoutReady(() => {
+		plugin.app.workspace.iterateAllLeaves((leaf: WorkspaceLeaf) => {
+			attachOnce(leaf.view.containerEl.doc);
+		});
+	});
+}